@@ -0,0 +1,121 @@
+import execa from 'execa';
+import fs from 'fs-extra';
+import path from 'path';
+import { BoilItEvent, GitExecutor, Prompter } from '../index';
+import { commitOn, createBoilIt, createRepo, createTempDir, git, identity } from './helpers/gitRepo';
+
+describe('programmatic API', () => {
+  let dir: string;
+  let source: string;
+  let target: string;
+  let messages: string[];
+  let gitCalls: string[][];
+
+  const runGit: GitExecutor = async (args, options) => {
+    gitCalls.push(args);
+    return execa('git', [...identity, ...args], options);
+  };
+
+  const create = (prompter?: Prompter) =>
+    createBoilIt(dir, {
+      logger: { log: (message) => messages.push(message) },
+      git: runGit,
+      ...(prompter ? { prompter } : {}),
+    });
+
+  beforeEach(async () => {
+    dir = await createTempDir('api');
+    source = path.join(dir, 'source');
+    target = path.join(dir, 'target');
+    messages = [];
+    gitCalls = [];
+
+    await createRepo(
+      source,
+      [
+        'name = "Source"',
+        '[modules.greeting]',
+        'refs = ["greeting"]',
+        '[modules.greeting.variables.name]',
+        'prompt = "Who?"',
+      ],
+      { branches: { greeting: { 'hello.txt': 'Hello {{name}}\n' } } }
+    );
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('loads, plans and applies as separate steps', async () => {
+    const prompter: Prompter = { prompt: jest.fn(async () => 'World') as Prompter['prompt'] };
+    const b = create(prompter);
+    const events: BoilItEvent['type'][] = [];
+    const picked: string[] = [];
+    b.on('commit-picked', (event) => picked.push(event.module));
+    b.on('file-copied', (event) => events.push(event.type));
+
+    const config = await b.loadConfig('source', { path: 'target', cache: false });
+    expect(Object.keys(config.modules)).toEqual(['greeting']);
+
+    const plan = await b.plan(['greeting']);
+    expect(plan.dryRun).toBe(true);
+    expect(plan.files).toContainEqual({ path: 'hello.txt', status: 'new' });
+    expect(picked).toEqual(['greeting']);
+    expect(await fs.pathExists(path.join(target, 'hello.txt'))).toBe(false);
+
+    const report = await b.apply(plan);
+    expect(report.dryRun).toBe(false);
+    expect(report.files).toContainEqual({ path: 'hello.txt', status: 'new', action: 'write' });
+    expect(events).toHaveLength(report.files.length);
+    expect(await fs.readFile(path.join(target, 'hello.txt'), 'utf-8')).toBe('Hello World\n');
+    expect(await fs.pathExists(path.join(target, 'boilit.lock'))).toBe(true);
+    expect(await fs.pathExists(path.join(dir, 'temp'))).toBe(false);
+
+    expect(prompter.prompt).toHaveBeenCalledWith(expect.objectContaining({ name: 'value', message: 'Who?' }));
+    expect(gitCalls.some((args) => args.includes('cherry-pick'))).toBe(true);
+  });
+
+  it('rejects a plan from another run and cleans up on dispose', async () => {
+    const b = create();
+    await b.loadConfig('source', { path: 'target', cache: false, vars: { name: 'x' } });
+    await expect(b.apply({ dryRun: true, order: [], modules: {}, files: [], hooks: [] })).rejects.toThrow(
+      'expects the plan returned by the last plan() call'
+    );
+
+    await b.dispose();
+    expect(await fs.pathExists(path.join(dir, 'temp'))).toBe(false);
+    await expect(b.plan()).rejects.toThrow('call loadConfig() first');
+  });
+
+  it('requires loadConfig() before plan()', async () => {
+    await expect(create().plan()).rejects.toThrow('call loadConfig() first');
+  });
+
+  it('reports conflicts to listeners registered with on()', async () => {
+    await fs.appendFile(path.join(source, 'boilit.toml'), '\n[modules.farewell]\nrefs = ["farewell"]\n');
+    await git(source, 'commit', '-qam', 'farewell module');
+    await commitOn(source, 'farewell', { 'hello.txt': 'Bye\n' });
+
+    const b = create();
+    const conflicts: string[][] = [];
+    b.on('conflict', (event) => conflicts.push(event.files));
+    await b.use('source', ['greeting', 'farewell'], {
+      path: 'target',
+      cache: false,
+      vars: { name: 'x' },
+      conflictStrategy: 'theirs',
+    });
+
+    expect(conflicts).toEqual([['hello.txt']]);
+  });
+
+  it('off() removes a listener', async () => {
+    const b = create();
+    const listener = jest.fn();
+    b.on('config-loaded', listener).off('config-loaded', listener);
+    await b.loadConfig('source', { cache: false });
+    await b.dispose();
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
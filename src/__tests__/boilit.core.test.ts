@@ -23,11 +23,12 @@ const fsExtra = {
   copy: jest.fn(),
   readdir: jest.fn(),
   stat: jest.fn(),
+  writeFile: jest.fn(),
 };
 jest.mock('fs-extra', () => fsExtra);
 
 import { BoilIt } from '../boilit';
-import { OperationCancelledError } from '../errors';
+import { ConflictError, HookFailedError, OperationCancelledError, SessionPausedError } from '../errors';
 
 const goodToml = `
 name = "Repo"
@@ -43,6 +44,9 @@ refs = ["feat"]
 
 const badToml = `name = "Repo"\n[modules]\n** invalid`;
 
+// Only the cloned source exists on disk; the target starts empty and no session is in progress
+const existsInSource = async (p: string) => p.includes('.boilit-temp') && !p.endsWith('session.json');
+
 function resetMocks() {
   jest.clearAllMocks();
   execaMock.mockReset();
@@ -58,7 +62,7 @@ describe('BoilIt core flows', () => {
 
     fsExtra.ensureDir.mockResolvedValue(undefined);
     fsExtra.emptyDir.mockResolvedValue(undefined);
-    fsExtra.pathExists.mockResolvedValue(true);
+    fsExtra.pathExists.mockImplementation(existsInSource);
     fsExtra.readFile.mockResolvedValue(goodToml);
     fsExtra.copy.mockResolvedValue(undefined);
     fsExtra.remove.mockResolvedValue(undefined);
@@ -82,12 +86,693 @@ describe('BoilIt core flows', () => {
     });
 
     const spyCopyToTarget = jest.spyOn(b as any, 'copyToTarget');
-    await b.use('https://github.com/u/repo.git', [], { path: 'target' });
+    await b.use('https://github.com/u/repo.git', [], { path: 'target', all: true });
     expect(fsExtra.ensureDir).toHaveBeenCalled();
     expect(spyCopyToTarget).toHaveBeenCalled();
     spyCopyToTarget.mockRestore();
   });
 
+  it('use() records the applied commits in boilit.lock', async () => {
+    const b = new BoilIt();
+
+    fsExtra.ensureDir.mockResolvedValue(undefined);
+    fsExtra.emptyDir.mockResolvedValue(undefined);
+    fsExtra.pathExists.mockImplementation(existsInSource);
+    fsExtra.readFile.mockResolvedValue(goodToml);
+    fsExtra.remove.mockResolvedValue(undefined);
+    jest.spyOn(b as any, 'validateModuleRefs').mockResolvedValue(undefined);
+    jest.spyOn(b as any, 'copyToTarget').mockResolvedValue([]);
+    jest.spyOn(b as any, 'cherryPickWithConflictHandling').mockResolvedValue(undefined);
+
+    execaMock.mockImplementation(async (_cmd: string, args: string[]) => {
+      const a = args.join(' ');
+      if (a.includes('rev-parse HEAD')) return { stdout: 'cfg1' } as any;
+      if (a.includes('merge-base')) return { stdout: 'base' } as any;
+      if (a.includes('rev-list') && a.includes('FETCH_HEAD')) return { stdout: 'sha1\nsha2\n' } as any;
+      return {};
+    });
+
+    await b.use('https://github.com/u/repo.git', ['core'], { path: 'target' });
+
+    const [lockPath, content] = fsExtra.writeFile.mock.calls[0];
+    expect(lockPath).toBe(path.join('target', 'boilit.lock'));
+    const lock = JSON.parse(content);
+    expect(lock.sources[0]).toEqual({
+      url: 'https://github.com/u/repo.git',
+      commit: 'cfg1',
+      modules: { core: { refs: [{ ref: 'main', origin: 'https://github.com/u/repo.git', commits: ['sha1', 'sha2'] }], files: {} } },
+    });
+  });
+
+  it('use() reports progress through onEvent', async () => {
+    const events: any[] = [];
+    const b = new BoilIt({ onEvent: (e) => events.push(e), quiet: true });
+    const repoDir = path.join(process.cwd(), '.boilit-temp', 'repo');
+
+    fsExtra.ensureDir.mockResolvedValue(undefined);
+    fsExtra.emptyDir.mockResolvedValue(undefined);
+    fsExtra.pathExists.mockImplementation(existsInSource);
+    fsExtra.readFile.mockImplementation(async (p: string) => p.endsWith('boilit.toml') ? goodToml : Buffer.from('x'));
+    fsExtra.readdir.mockImplementation(async (dir: string) => dir === repoDir ? ['a.txt'] : []);
+    fsExtra.stat.mockResolvedValue({ isDirectory: () => false } as any);
+    fsExtra.remove.mockResolvedValue(undefined);
+    jest.spyOn(b as any, 'checkRefExists').mockResolvedValue(true);
+    jest.spyOn(b as any, 'cherryPickWithConflictHandling').mockResolvedValue(true);
+
+    execaMock.mockImplementation(async (_cmd: string, args: string[]) => {
+      const a = args.join(' ');
+      if (a.includes('rev-parse HEAD')) return { stdout: 'cfg1' } as any;
+      if (a.includes('merge-base')) return { stdout: 'base' } as any;
+      if (a.includes('rev-list')) return { stdout: 'sha1\n' } as any;
+      return {};
+    });
+
+    await b.use('https://github.com/u/repo.git', ['core'], { path: 'target' });
+
+    expect(events).toEqual([
+      { type: 'clone-started', url: 'https://github.com/u/repo.git' },
+      { type: 'clone-finished', url: 'https://github.com/u/repo.git' },
+      { type: 'config-loaded', name: 'Repo', modules: ['core', 'extra'] },
+      { type: 'order-resolved', modules: ['core'] },
+      { type: 'ref-validated', module: 'core', ref: 'main' },
+      { type: 'commit-picked', module: 'core', ref: 'main', sha: 'sha1' },
+      { type: 'file-copied', path: 'a.txt', status: 'new', action: 'write' },
+    ]);
+  });
+
+  it('use() with frozen replays the locked commits instead of resolving refs', async () => {
+    const b = new BoilIt();
+    const lock = {
+      version: 1,
+      sources: [{
+        url: 'https://github.com/u/repo.git',
+        commit: 'cfg1',
+        modules: { core: { refs: [{ ref: 'main', origin: 'https://github.com/u/repo.git', commits: ['sha1'] }] } },
+      }],
+    };
+
+    fsExtra.ensureDir.mockResolvedValue(undefined);
+    fsExtra.emptyDir.mockResolvedValue(undefined);
+    fsExtra.pathExists.mockImplementation(async (p: string) => !p.endsWith('session.json'));
+    fsExtra.readFile.mockImplementation(async (p: string) => p.endsWith('boilit.lock') ? JSON.stringify(lock) : goodToml);
+    fsExtra.remove.mockResolvedValue(undefined);
+    jest.spyOn(b as any, 'copyToTarget').mockResolvedValue([]);
+    const validateSpy = jest.spyOn(b as any, 'validateModuleRefs');
+    const prepareSpy = jest.spyOn(b as any, 'prepareRepoForModule');
+    const cherrySpy = jest.spyOn(b as any, 'cherryPickWithConflictHandling').mockResolvedValue(undefined);
+
+    execaMock.mockImplementation(async (_cmd: string, args: string[]) => {
+      if (args.join(' ').includes('rev-parse HEAD')) return { stdout: 'cfg1' } as any;
+      return {};
+    });
+
+    await b.use('https://github.com/u/repo.git', [], { path: 'target', frozen: true });
+
+    const calls = execaMock.mock.calls.map((c: any[]) => c[1].join(' '));
+    expect(calls.some((a: string) => a.includes('checkout --detach cfg1'))).toBe(true);
+    expect(cherrySpy).toHaveBeenCalledWith(expect.any(String), 'sha1');
+    expect(validateSpy).not.toHaveBeenCalled();
+    expect(prepareSpy).not.toHaveBeenCalled();
+  });
+
+  it('use() with frozen fails when the source is not locked', async () => {
+    const b = new BoilIt();
+    fsExtra.pathExists.mockImplementation(existsInSource);
+    fsExtra.remove.mockResolvedValue(undefined);
+
+    await expect(b.use('https://github.com/u/repo.git', [], { frozen: true }))
+      .rejects.toThrow('No entry for https://github.com/u/repo.git in boilit.lock');
+  });
+
+  it('use() with dryRun reports the plan without writing to the target', async () => {
+    const b = new BoilIt();
+    const repoDir = path.join(process.cwd(), '.boilit-temp', 'repo');
+
+    fsExtra.ensureDir.mockResolvedValue(undefined);
+    fsExtra.emptyDir.mockResolvedValue(undefined);
+    fsExtra.remove.mockResolvedValue(undefined);
+    fsExtra.pathExists.mockImplementation(async (p: string) => await existsInSource(p) || p.endsWith('same.txt') || p.endsWith('edited.txt'));
+    fsExtra.readFile.mockImplementation(async (p: string) => {
+      if (p.endsWith('boilit.toml')) return goodToml;
+      if (p.endsWith('edited.txt') && !p.includes('.boilit-temp')) return Buffer.from('local');
+      return Buffer.from('upstream');
+    });
+    fsExtra.readdir.mockImplementation(async (dir: string) => dir === repoDir ? ['new.txt', 'same.txt', 'edited.txt'] : []);
+    fsExtra.stat.mockResolvedValue({ isDirectory: () => false } as any);
+    jest.spyOn(b as any, 'validateModuleRefs').mockResolvedValue(undefined);
+    jest.spyOn(b as any, 'cherryPickWithConflictHandling').mockResolvedValue(undefined);
+
+    execaMock.mockImplementation(async (_cmd: string, args: string[]) => {
+      const a = args.join(' ');
+      if (a.includes('rev-parse HEAD')) return { stdout: 'cfg1' } as any;
+      if (a.includes('merge-base')) return { stdout: 'base' } as any;
+      if (a.includes('rev-list')) return { stdout: 'sha1\n' } as any;
+      if (a.includes('show -s')) return { stdout: 'sha1\tAdd core' } as any;
+      return {};
+    });
+
+    const report = await b.use('https://github.com/u/repo.git', ['extra'], { path: 'target', dryRun: true });
+
+    expect(report.dryRun).toBe(true);
+    expect(report.order).toEqual(['core', 'extra']);
+    expect(report.modules.core[0].commits).toEqual([{ sha: 'sha1', subject: 'Add core' }]);
+    expect(report.files).toEqual([
+      { path: 'new.txt', status: 'new' },
+      { path: 'same.txt', status: 'identical' },
+      { path: 'edited.txt', status: 'changed' },
+    ]);
+    expect(fsExtra.copy).not.toHaveBeenCalled();
+    expect(fsExtra.writeFile).not.toHaveBeenCalled();
+  });
+
+  it('parseSource splits the repo#ref shorthand', () => {
+    const b = new BoilIt();
+    expect((b as any).parseSource('https://x/y.git#v2.0')).toEqual({ url: 'https://x/y.git', ref: 'v2.0' });
+    expect((b as any).parseSource('https://x/y.git', 'v2.0')).toEqual({ url: 'https://x/y.git', ref: 'v2.0' });
+    expect((b as any).parseSource('https://x/y.git#v2.0', 'v2.0')).toEqual({ url: 'https://x/y.git', ref: 'v2.0' });
+    expect((b as any).parseSource('https://x/y.git')).toEqual({ url: 'https://x/y.git', ref: undefined });
+    expect(() => (b as any).parseSource('https://x/y.git#v1', 'v2')).toThrow('Conflicting refs');
+    expect(() => (b as any).parseSource('https://x/y.git#')).toThrow("Missing ref after '#'");
+  });
+
+  it('checkoutRef falls back to the remote-tracking branch and fails on unknown refs', async () => {
+    const b = new BoilIt();
+    execaMock.mockImplementation(async (_cmd: string, args: string[]) => {
+      const a = args.join(' ');
+      if (a.includes('rev-parse --verify --quiet origin/release^{commit}')) return { stdout: 'abc123' } as any;
+      if (a.includes('rev-parse')) throw new Error('unknown');
+      return {};
+    });
+
+    await (b as any).checkoutRef('/repo', 'release');
+    expect(execaMock).toHaveBeenCalledWith('git', ['-C', '/repo', 'checkout', '--detach', 'abc123'], { stdio: 'pipe' });
+
+    await expect((b as any).checkoutRef('/repo', 'nope')).rejects.toThrow("Ref 'nope' not found");
+  });
+
+  it('use() checks out the requested ref before loading boilit.toml and locks it', async () => {
+    const b = new BoilIt();
+    fsExtra.ensureDir.mockResolvedValue(undefined);
+    fsExtra.emptyDir.mockResolvedValue(undefined);
+    fsExtra.pathExists.mockImplementation(existsInSource);
+    fsExtra.readFile.mockResolvedValue(goodToml);
+    fsExtra.remove.mockResolvedValue(undefined);
+    jest.spyOn(b as any, 'resolveModules').mockResolvedValue(undefined);
+    const order: string[] = [];
+    jest.spyOn(b as any, 'checkoutRef').mockImplementation(async () => { order.push('checkout'); });
+    const readConfig = (b as any).readConfig.bind(b);
+    jest.spyOn(b as any, 'readConfig').mockImplementation(async () => { order.push('load'); await readConfig(); });
+    execaMock.mockImplementation(async (_cmd: string, args: string[]) =>
+      args.join(' ').includes('rev-parse HEAD') ? { stdout: 'cfg2' } as any : {});
+
+    await b.use('https://github.com/u/repo.git#v2.0', ['core'], { path: 'target' });
+
+    expect(order).toEqual(['checkout', 'load']);
+    const lock = JSON.parse(fsExtra.writeFile.mock.calls[0][1]);
+    expect(lock.sources[0]).toMatchObject({ url: 'https://github.com/u/repo.git', ref: 'v2.0', commit: 'cfg2' });
+  });
+
+  describe('conflict sessions', () => {
+    const tempDir = path.join(process.cwd(), '.boilit-temp');
+    const parsedConfig = {
+      name: 'Repo',
+      modules: { core: { description: 'Core', refs: ['main'] }, extra: { dependencies: ['core'], refs: ['feat'] } },
+    };
+
+    it('use() saves the session and keeps the temp clone when a conflict is paused', async () => {
+      const b = new BoilIt();
+      (b as any).canPrompt = true;
+      const conflict: any = new Error('conflict');
+      conflict.exitCode = 1;
+
+      fsExtra.ensureDir.mockResolvedValue(undefined);
+      fsExtra.emptyDir.mockResolvedValue(undefined);
+      fsExtra.pathExists.mockImplementation(existsInSource);
+      fsExtra.readFile.mockResolvedValue(goodToml);
+      fsExtra.remove.mockResolvedValue(undefined);
+      jest.spyOn(b as any, 'validateModuleRefs').mockResolvedValue(undefined);
+      jest.doMock('inquirer', () => ({ __esModule: true, default: { prompt: jest.fn().mockResolvedValue({ action: 'pause' }) } }));
+
+      execaMock.mockImplementation(async (_cmd: string, args: string[]) => {
+        const a = args.join(' ');
+        if (a.includes('rev-parse HEAD')) return { stdout: 'cfg1' } as any;
+        if (a.includes('merge-base')) return { stdout: 'base' } as any;
+        if (a.includes('rev-list')) return { stdout: 'sha1\nsha2\n' } as any;
+        if (a.includes('cherry-pick sha2')) throw conflict;
+        return {};
+      });
+
+      await expect(b.use('https://github.com/u/repo.git', ['extra'], { path: 'target', onExisting: 'skip' }))
+        .rejects.toBeInstanceOf(SessionPausedError);
+
+      const [sessionPath, content] = fsExtra.writeFile.mock.calls[0];
+      expect(sessionPath).toBe(path.join(tempDir, 'session.json'));
+      const session = JSON.parse(content);
+      expect(session).toMatchObject({
+        repo: 'https://github.com/u/repo.git',
+        targetPath: path.resolve('target'),
+        options: { onExisting: 'skip' },
+        configCommit: 'cfg1',
+        order: ['core', 'extra'],
+        applied: {},
+        current: { module: 'core', refIndex: 0, shaIndex: 1 },
+      });
+      expect(session.current.refs[0].commits).toEqual(['sha1', 'sha2']);
+      expect(fsExtra.remove).not.toHaveBeenCalled();
+    });
+
+    it('resume() commits the resolved pick and applies the rest of the queue', async () => {
+      const b = new BoilIt();
+      const session = {
+        version: 1,
+        repo: 'https://github.com/u/repo.git',
+        localSource: null,
+        targetPath: path.resolve('target'),
+        options: {},
+        configCommit: 'cfg1',
+        config: parsedConfig,
+        lockedSource: null,
+        order: ['core', 'extra'],
+        applied: {},
+        current: {
+          module: 'core',
+          refs: [{ ref: 'main', origin: 'https://github.com/u/repo.git', commits: ['sha1', 'sha2'] }],
+          refIndex: 0,
+          shaIndex: 1,
+        },
+      };
+
+      fsExtra.pathExists.mockImplementation(async (p: string) => p.endsWith('session.json'));
+      fsExtra.readFile.mockResolvedValue(JSON.stringify(session));
+      fsExtra.remove.mockResolvedValue(undefined);
+      jest.spyOn(b as any, 'copyToTarget').mockResolvedValue([]);
+      const cherrySpy = jest.spyOn(b as any, 'cherryPickWithConflictHandling').mockResolvedValue(undefined);
+
+      execaMock.mockImplementation(async (_cmd: string, args: string[]) => {
+        const a = args.join(' ');
+        if (a.includes('--diff-filter=U')) return { stdout: '' } as any;
+        if (a.includes('CHERRY_PICK_HEAD')) return { exitCode: 0 } as any;
+        if (a.includes('rev-parse HEAD')) return { stdout: 'head' } as any;
+        if (a.includes('merge-base')) return { stdout: 'base' } as any;
+        if (a.includes('rev-list')) return { stdout: 'sha3\n' } as any;
+        return {};
+      });
+
+      await b.resume('continue');
+
+      const calls = execaMock.mock.calls.map((c: any[]) => c[1].join(' '));
+      expect(calls.some((a: string) => a.includes('cherry-pick --continue'))).toBe(true);
+      expect(cherrySpy.mock.calls.map((c) => c[1])).toEqual(['sha3']);
+
+      const lockCall = fsExtra.writeFile.mock.calls.find((c: any[]) => c[0].endsWith('boilit.lock'));
+      expect(JSON.parse(lockCall[1]).sources[0].modules).toEqual({
+        core: { refs: [{ ref: 'main', origin: 'https://github.com/u/repo.git', commits: ['sha1', 'sha2'] }], files: {} },
+        extra: {
+          refs: [{ ref: 'feat', origin: 'https://github.com/u/repo.git', commits: ['sha3'] }],
+          dependencies: ['core'],
+          files: {},
+        },
+      });
+      expect(fsExtra.remove).toHaveBeenCalledWith(tempDir);
+    });
+
+    it('resume() stages resolved files and refuses to continue while markers remain', async () => {
+      const b = new BoilIt();
+      const session = JSON.stringify({
+        version: 1, repo: 'https://github.com/u/repo.git', localSource: null, targetPath: '/t', options: {},
+        configCommit: 'cfg1', config: parsedConfig, lockedSource: null, order: ['core'], applied: {},
+        current: { module: 'core', refs: [], refIndex: 0, shaIndex: 0 },
+      });
+      fsExtra.pathExists.mockImplementation(async (p: string) => p.endsWith('session.json') || p.endsWith('.md'));
+      fsExtra.readFile.mockImplementation(async (p: string) => {
+        if (p.endsWith('README.md')) return Buffer.from('<<<<<<< HEAD\nours\n=======\ntheirs\n>>>>>>> sha2\n');
+        if (p.endsWith('NOTES.md')) return Buffer.from('resolved\n');
+        return session;
+      });
+      execaMock.mockImplementation(async (_cmd: string, args: string[]) =>
+        args.includes('--diff-filter=U') ? { stdout: 'README.md\nNOTES.md\n' } : {});
+
+      await expect(b.resume('continue')).rejects.toThrow('Conflict markers remain in: README.md.');
+      const calls = execaMock.mock.calls.map((c: any[]) => c[1].join(' '));
+      expect(calls.filter((a: string) => a.includes(' add '))).toEqual([expect.stringContaining('add -A -- NOTES.md')]);
+      expect(fsExtra.remove).not.toHaveBeenCalled();
+    });
+
+    it('use() refuses to start while a session is in progress', async () => {
+      const b = new BoilIt();
+      fsExtra.pathExists.mockImplementation(async (p: string) => p.endsWith('session.json'));
+      fsExtra.readFile.mockResolvedValue(JSON.stringify({
+        version: 1, repo: 'r/x.git', localSource: null, targetPath: '/t', options: {}, configCommit: 'c',
+        config: parsedConfig, lockedSource: null, order: [], applied: {},
+        current: { module: 'core', refs: [], refIndex: 0, shaIndex: 0 },
+      }));
+
+      await expect(b.use('https://github.com/u/repo.git')).rejects.toThrow('A BoilIt session is already in progress');
+      expect(fsExtra.remove).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('conflict menu', () => {
+    const repoDir = path.join(process.cwd(), '.x');
+
+    function promptWith(...answers: any[]) {
+      const prompt = jest.fn();
+      for (const answer of answers) prompt.mockResolvedValueOnce(answer);
+      jest.doMock('inquirer', () => ({ __esModule: true, default: { prompt } }));
+      return prompt;
+    }
+
+    it('lists the conflicted files with the absolute temp repository path', async () => {
+      const b = new BoilIt();
+      const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+      execaMock.mockImplementation(async (_cmd: string, args: string[]) =>
+        args.includes('--diff-filter=U') ? { stdout: 'src/a.ts\n' } : {});
+      promptWith({ action: 'skip' });
+
+      await (b as any).handleMergeConflict(repoDir, 'sha1');
+
+      const out = logSpy.mock.calls.map((c) => String(c[0])).join('\n');
+      expect(out).toContain(`Temp repository: ${repoDir}`);
+      expect(out).toContain(path.join(repoDir, 'src/a.ts'));
+      logSpy.mockRestore();
+    });
+
+    it('names the sides after what they hold in use and in update', async () => {
+      const b = new BoilIt();
+      execaMock.mockImplementation(async (_cmd: string, args: string[]) =>
+        args.includes('--diff-filter=U') ? { stdout: 'a.txt\n' } : {});
+      const prompt = promptWith({ action: 'skip' }, { action: 'skip' });
+
+      await (b as any).handleMergeConflict(repoDir, 'sha1');
+      await (b as any).handleMergeConflict(repoDir, 'sha1', 'update');
+
+      const labels = prompt.mock.calls.map((call: any[]) => call[0][0].choices.map((c: any) => c.name));
+      expect(labels[0]).toEqual(expect.arrayContaining([
+        'Keep the modules applied so far (ours) for all files',
+        'Take the commit being picked (theirs) for all files',
+      ]));
+      expect(labels[1]).toEqual(expect.arrayContaining([
+        'Keep your local version (ours) for all files',
+        'Take the updated module version (theirs) for all files',
+      ]));
+    });
+
+    it('takes theirs for every file, then continues', async () => {
+      const b = new BoilIt();
+      let conflicted = 'a.txt\nb.txt\n';
+      execaMock.mockImplementation(async (_cmd: string, args: string[]) => {
+        const a = args.join(' ');
+        if (a.includes('--diff-filter=U')) return { stdout: conflicted } as any;
+        if (a.includes('add -- b.txt')) conflicted = '';
+        return {};
+      });
+      promptWith({ action: 'theirs' }, { action: 'continue' });
+
+      await expect((b as any).handleMergeConflict(repoDir, 'sha1')).resolves.toBe('resolved');
+
+      const calls = execaMock.mock.calls.map((c: any[]) => c[1].join(' '));
+      expect(calls).toEqual(expect.arrayContaining([
+        expect.stringContaining('checkout --theirs -- a.txt'),
+        expect.stringContaining('checkout --theirs -- b.txt'),
+        expect.stringContaining('cherry-pick --continue'),
+      ]));
+    });
+
+    it('resolves per file and falls back to git rm when a side deleted the file', async () => {
+      const b = new BoilIt();
+      execaMock.mockImplementation(async (_cmd: string, args: string[]) => {
+        const a = args.join(' ');
+        if (a.includes('--diff-filter=U')) return { stdout: 'kept.txt\ngone.txt\n' } as any;
+        if (a.includes('checkout --ours -- gone.txt')) throw new Error('does not have our version');
+        return {};
+      });
+      promptWith({ action: 'per-file' }, { side: 'theirs' }, { side: 'ours' }, { action: 'skip' });
+
+      await (b as any).handleMergeConflict(repoDir, 'sha1');
+
+      const calls = execaMock.mock.calls.map((c: any[]) => c[1].join(' '));
+      expect(calls).toEqual(expect.arrayContaining([
+        expect.stringContaining('checkout --theirs -- kept.txt'),
+        expect.stringContaining('rm --quiet -- gone.txt'),
+      ]));
+    });
+
+    it('skipping a commit drops it from the applied refs', async () => {
+      const b = new BoilIt();
+      (b as any).interactive = true;
+      const conflict: any = new Error('conflict');
+      conflict.exitCode = 1;
+      execaMock.mockImplementation(async (_cmd: string, args: string[]) => {
+        if (args.join(' ').includes('cherry-pick sha2')) throw conflict;
+        return {};
+      });
+      promptWith({ action: 'skip' });
+
+      const applied: any[] = [];
+      await (b as any).pickRefs(repoDir, [{ ref: 'main', origin: 'o', commits: ['sha1', 'sha2', 'sha3'] }], applied);
+
+      const calls = execaMock.mock.calls.map((c: any[]) => c[1].join(' '));
+      expect(calls).toContain(`-C ${repoDir} cherry-pick --skip`);
+      expect(calls).toContain(`-C ${repoDir} cherry-pick sha3`);
+      expect(applied).toEqual([{ ref: 'main', origin: 'o', commits: ['sha1', 'sha3'] }]);
+    });
+
+    it('opens each conflicted file in $EDITOR', async () => {
+      const b = new BoilIt();
+      const previous = process.env.EDITOR;
+      process.env.EDITOR = 'code --wait';
+      delete process.env.VISUAL;
+      execaMock.mockImplementation(async (_cmd: string, args: string[]) =>
+        Array.isArray(args) && args.includes('--diff-filter=U') ? { stdout: 'a.txt\n' } : {});
+      promptWith({ action: 'edit' }, { action: 'skip' });
+
+      await (b as any).handleMergeConflict(repoDir, 'sha1');
+
+      expect(execaMock).toHaveBeenCalledWith('code', ['--wait', path.join(repoDir, 'a.txt')], expect.objectContaining({ stdio: 'inherit' }));
+      expect(execaMock.mock.calls.some((c: any[]) => c[c.length - 1]?.shell)).toBe(false);
+      if (previous === undefined) delete process.env.EDITOR;
+      else process.env.EDITOR = previous;
+    });
+  });
+
+  describe('non-interactive conflicts', () => {
+    const repoDir = path.join(process.cwd(), '.x');
+    const conflict: any = Object.assign(new Error('conflict'), { exitCode: 1 });
+
+    function mockConflict(staged: boolean) {
+      execaMock.mockImplementation(async (_cmd: string, args: string[]) => {
+        const a = args.join(' ');
+        if (a.includes('cherry-pick sha1')) throw conflict;
+        if (a.includes('--diff-filter=U')) return { stdout: 'README.md\n' } as any;
+        if (a.includes('diff --cached --quiet')) return { exitCode: staged ? 1 : 0 } as any;
+        return {};
+      });
+    }
+
+    it('fails without prompting, naming the module, commit and files', async () => {
+      const b = new BoilIt();
+      (b as any).progress = { module: 'user', refs: [], refIndex: 0, shaIndex: 0 };
+      const menu = jest.spyOn(b as any, 'handleMergeConflict');
+      mockConflict(true);
+
+      const error = await (b as any).cherryPickWithConflictHandling(repoDir, 'sha1').catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ConflictError);
+      expect(error).toMatchObject({ module: 'user', sha: 'sha1', files: ['README.md'] });
+      expect(menu).not.toHaveBeenCalled();
+      expect(execaMock.mock.calls.map((c: any[]) => c[1].join(' '))).toContain(`-C ${repoDir} cherry-pick --abort`);
+    });
+
+    it('applies the declared strategy even when interactive', async () => {
+      const b = new BoilIt();
+      (b as any).interactive = true;
+      (b as any).conflictStrategy = 'theirs';
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+      mockConflict(true);
+
+      await expect((b as any).cherryPickWithConflictHandling(repoDir, 'sha1')).resolves.toBe(true);
+
+      const calls = execaMock.mock.calls.map((c: any[]) => c[1].join(' '));
+      expect(calls).toEqual(expect.arrayContaining([
+        `-C ${repoDir} checkout --theirs -- README.md`,
+        `-C ${repoDir} cherry-pick --continue`,
+      ]));
+    });
+
+    it('skips the commit when ours leaves nothing to commit, or with skip-commit', async () => {
+      const b = new BoilIt();
+      (b as any).conflictStrategy = 'ours';
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+      mockConflict(false);
+
+      await expect((b as any).cherryPickWithConflictHandling(repoDir, 'sha1')).resolves.toBe(false);
+
+      (b as any).conflictStrategy = 'skip-commit';
+      await expect((b as any).cherryPickWithConflictHandling(repoDir, 'sha1')).resolves.toBe(false);
+
+      const calls = execaMock.mock.calls.map((c: any[]) => c[1].join(' '));
+      expect(calls.filter((a: string) => a.endsWith('cherry-pick --skip'))).toHaveLength(2);
+      expect(calls).not.toContain(`-C ${repoDir} cherry-pick --continue`);
+    });
+
+    it('refuses --on-existing=prompt without a terminal', async () => {
+      const b = new BoilIt();
+      fsExtra.pathExists.mockImplementation(existsInSource);
+      await expect(b.use('https://github.com/u/repo.git', [], { onExisting: 'prompt', nonInteractive: true }))
+        .rejects.toThrow('--on-existing=prompt needs an interactive terminal');
+    });
+
+    it('only stays non-interactive for the call that asked for it', () => {
+      const b = new BoilIt({ prompter: { prompt: jest.fn() } });
+      (b as any).applyOptions({ nonInteractive: true });
+      expect((b as any).interactive).toBe(false);
+      (b as any).applyOptions({});
+      expect((b as any).interactive).toBe(true);
+    });
+  });
+
+  describe('module picker', () => {
+    const config = {
+      name: 'Repo',
+      modules: {
+        auth: { description: 'Auth', refs: ['auth'] },
+        user: { dependencies: ['auth'], refs: ['user'] },
+        user2: { dependencies: ['auth'], refs: ['user2'] },
+      },
+    };
+
+    it('shows dependencies as auto-included and confirms the order', async () => {
+      const prompt = jest.fn()
+        .mockResolvedValueOnce(['user'])
+        .mockResolvedValueOnce('change')
+        .mockResolvedValueOnce(['user', 'user2'])
+        .mockResolvedValueOnce('apply');
+      const b = new BoilIt({ prompter: { prompt }, logger: { log: jest.fn() } });
+      (b as any).config = config;
+
+      await expect((b as any).selectModules()).resolves.toEqual(['user', 'user2']);
+
+      expect(prompt.mock.calls[0][0].choices.map((c: any) => c.name)).toEqual([
+        expect.stringContaining('Auth'),
+        expect.stringMatching(/^user .*requires auth/),
+        expect.stringMatching(/^user2 .*requires auth/),
+      ]);
+      const again = prompt.mock.calls[2][0].choices;
+      expect(again[0]).toMatchObject({ value: 'auth', checked: true, disabled: 'auto-included, required by user' });
+      expect(again[1]).toMatchObject({ value: 'user', checked: true });
+      expect(again[2]).toMatchObject({ value: 'user2', checked: false });
+    });
+
+    it('cancels from the confirmation', async () => {
+      const prompt = jest.fn().mockResolvedValueOnce(['auth']).mockResolvedValueOnce('cancel');
+      const b = new BoilIt({ prompter: { prompt }, logger: { log: jest.fn() } });
+      (b as any).config = config;
+
+      await expect((b as any).selectModules()).rejects.toThrow('Module selection cancelled');
+    });
+
+    it('requires module names or --all without a terminal', async () => {
+      const b = new BoilIt();
+      (b as any).config = config;
+      (b as any).interactive = false;
+
+      await expect((b as any).buildPlan([])).rejects.toThrow('pass --all to apply every module');
+      (b as any).allModules = true;
+      await expect((b as any).buildPlan(['auth'])).rejects.toThrow('--all cannot be combined with module names');
+    });
+  });
+
+  describe('local sources', () => {
+    it('normalizeSource keeps remote URLs and resolves local paths', async () => {
+      const b = new BoilIt();
+      await expect((b as any).normalizeSource('https://x/y.git')).resolves.toBe('https://x/y.git');
+      await expect((b as any).normalizeSource('git@github.com:org/repo.git')).resolves.toBe('git@github.com:org/repo.git');
+      expect((b as any).localSource).toBeNull();
+
+      fsExtra.pathExists.mockResolvedValue(true);
+      await expect((b as any).normalizeSource('../boilerplate')).resolves.toBe(path.resolve('../boilerplate'));
+      expect((b as any).localSource).toBe(path.resolve('../boilerplate'));
+
+      await expect((b as any).normalizeSource('file:///tmp/boilerplate')).resolves.toBe('file:///tmp/boilerplate');
+      expect((b as any).localSource).toBe(path.resolve('/tmp/boilerplate'));
+
+      fsExtra.pathExists.mockResolvedValue(false);
+      await expect((b as any).normalizeSource('./missing')).rejects.toThrow('Local repository not found: ./missing');
+    });
+
+    it('getOriginUrl prefers the local repository over [default].origin', () => {
+      const b = new BoilIt();
+      (b as any).config = { default: { origin: 'https://remote/repo.git' }, modules: {} };
+      (b as any).repoUrl = '/work/repo';
+      expect((b as any).getOriginUrl({})).toBe('https://remote/repo.git');
+
+      (b as any).localSource = '/work/repo';
+      expect((b as any).getOriginUrl({})).toBe('/work/repo');
+      expect((b as any).getOriginUrl({ origin: 'git@other:x.git' })).toBe('git@other:x.git');
+    });
+
+    it('includeWorkingTreeChanges commits tracked diffs and untracked files into the clone', async () => {
+      const b = new BoilIt();
+      (b as any).localSource = '/work/repo';
+      fsExtra.copy.mockResolvedValue(undefined);
+      execaMock.mockImplementation(async (_cmd: string, args: string[]) => {
+        const a = args.join(' ');
+        if (a.includes('diff HEAD --binary')) return { stdout: 'diff --git a/x b/x\n' } as any;
+        if (a.includes('ls-files')) return { stdout: 'new.md\0' } as any;
+        if (a.includes('diff --cached')) return { stdout: 'new.md\nx' } as any;
+        return {};
+      });
+
+      await (b as any).includeWorkingTreeChanges('/clone');
+
+      expect(execaMock).toHaveBeenCalledWith('git', ['-C', '/clone', 'apply', '--binary', '--index', '-'], { input: 'diff --git a/x b/x\n', stdio: 'pipe' });
+      expect(fsExtra.copy).toHaveBeenCalledWith(path.join('/work/repo', 'new.md'), path.join('/clone', 'new.md'), { overwrite: true });
+      expect(execaMock.mock.calls.some((c: any[]) => c[1].includes('commit'))).toBe(true);
+    });
+
+    it('includeWorkingTreeChanges rejects remote sources', async () => {
+      const b = new BoilIt();
+      await expect((b as any).includeWorkingTreeChanges('/clone')).rejects.toThrow('only supported for local repositories');
+    });
+  });
+
+  it('fetchUrl goes through the cache only for remote URLs', async () => {
+    const b = new BoilIt();
+    await expect((b as any).fetchUrl('https://x/y.git')).resolves.toBe('https://x/y.git');
+
+    const ensure = jest.fn().mockResolvedValue('/cache/repos/abc.git');
+    (b as any).cache = { ensure };
+    await expect((b as any).fetchUrl('https://x/y.git')).resolves.toBe('/cache/repos/abc.git');
+    await expect((b as any).fetchUrl('git@github.com:x/y.git')).resolves.toBe('/cache/repos/abc.git');
+    await expect((b as any).fetchUrl('/work/repo')).resolves.toBe('/work/repo');
+    await expect((b as any).fetchUrl('file:///work/repo')).resolves.toBe('file:///work/repo');
+    expect(ensure).toHaveBeenCalledTimes(2);
+  });
+
+  it('createCache honors --no-cache and rejects --offline without a cache', () => {
+    const b = new BoilIt();
+    expect((b as any).createCache({})).not.toBeNull();
+    expect((b as any).createCache({ cache: false })).toBeNull();
+    expect(() => (b as any).createCache({ cache: false, offline: true })).toThrow('--offline cannot be combined with --no-cache');
+  });
+
+  it('list() returns the parsed configuration without applying modules', async () => {
+    const b = new BoilIt();
+
+    fsExtra.ensureDir.mockResolvedValue(undefined);
+    fsExtra.emptyDir.mockResolvedValue(undefined);
+    fsExtra.pathExists.mockImplementation(existsInSource);
+    fsExtra.readFile.mockResolvedValue(goodToml);
+    fsExtra.remove.mockResolvedValue(undefined);
+    execaMock.mockResolvedValue({});
+
+    const config = await b.list('https://github.com/u/repo.git');
+    expect(Object.keys(config.modules)).toEqual(['core', 'extra']);
+    expect(config.modules.extra.dependencies).toEqual(['core']);
+    expect(fsExtra.copy).not.toHaveBeenCalled();
+    expect(fsExtra.remove).toHaveBeenCalled();
+  });
+
   it('copyToTarget honors default.files/default.ignore and module.files/module.ignore', async () => {
     const b = new BoilIt();
     const repoDir = path.join(process.cwd(), '.repo');
@@ -138,12 +823,218 @@ describe('BoilIt core flows', () => {
 
   
 
+  describe('copyToTarget with files that already exist in the target', () => {
+    const repoDir = path.join(process.cwd(), '.repo');
+    const target = path.join(process.cwd(), '.out');
+
+    function setup(b: BoilIt, onExisting?: string) {
+      (b as any).config = { modules: { M: {} } } as any;
+      if (onExisting) (b as any).onExisting = onExisting;
+      fsExtra.readdir.mockImplementation(async (dir: string) => dir === repoDir ? ['same.txt', 'edited.txt'] : []);
+      fsExtra.stat.mockResolvedValue({ isDirectory: () => false } as any);
+      fsExtra.pathExists.mockResolvedValue(true);
+      fsExtra.readFile.mockImplementation(async (p: string) =>
+        Buffer.from(p.startsWith(target) && p.endsWith('edited.txt') ? 'local' : 'upstream'));
+      fsExtra.ensureDir.mockResolvedValue(undefined);
+      fsExtra.copy.mockResolvedValue(undefined);
+      fsExtra.writeFile.mockResolvedValue(undefined);
+    }
+
+    const copiedTo = () => fsExtra.copy.mock.calls.map((c: any[]) => path.relative(target, c[1]));
+
+    it('refuses to clobber changed files by default', async () => {
+      const b = new BoilIt();
+      setup(b);
+      await expect((b as any).copyToTarget(repoDir, target, ['M']))
+        .rejects.toThrow('Refusing to overwrite 1 existing file with local changes: edited.txt');
+      expect(fsExtra.copy).not.toHaveBeenCalled();
+    });
+
+    it('overwrite replaces changed files', async () => {
+      const b = new BoilIt();
+      setup(b, 'overwrite');
+      const files = await (b as any).copyToTarget(repoDir, target, ['M']);
+      expect(copiedTo()).toEqual(['same.txt', 'edited.txt']);
+      expect(files.map((f: any) => f.action)).toEqual(['write', 'write']);
+    });
+
+    it('skip keeps changed files untouched', async () => {
+      const b = new BoilIt();
+      setup(b, 'skip');
+      await (b as any).copyToTarget(repoDir, target, ['M']);
+      expect(copiedTo()).toEqual(['same.txt']);
+    });
+
+    it('backup writes an .orig copy before replacing', async () => {
+      const b = new BoilIt();
+      setup(b, 'backup');
+      await (b as any).copyToTarget(repoDir, target, ['M']);
+      expect(copiedTo()).toEqual(['same.txt', 'edited.txt.orig', 'edited.txt']);
+    });
+
+    it('prompt shows a diff and honors the merge choice', async () => {
+      const b = new BoilIt();
+      setup(b, 'prompt');
+      const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+      execaMock.mockImplementation(async (_cmd: string, args: string[]) => {
+        if (args[0] === 'diff') return { stdout: '-local\n+upstream', exitCode: 1 } as any;
+        if (args[0] === 'merge-file') return { stdout: '<<<<<<< local', stderr: '', exitCode: 1 } as any;
+        return {};
+      });
+      jest.doMock('inquirer', () => ({ __esModule: true, default: { prompt: jest.fn().mockResolvedValue({ action: 'merge' }) } }));
+
+      await (b as any).copyToTarget(repoDir, target, ['M']);
+
+      expect(logSpy).toHaveBeenCalledWith('-local\n+upstream');
+      expect(copiedTo()).toEqual(['same.txt']);
+      expect(fsExtra.writeFile).toHaveBeenCalledWith(path.join(target, 'edited.txt'), '<<<<<<< local');
+      logSpy.mockRestore();
+    });
+  });
+
+  describe('template variables', () => {
+    it('resolveVariables prefers --var values, then defaults, and validates patterns', async () => {
+      const b = new BoilIt();
+      (b as any).config = {
+        default: { origin: 'o', variables: { projectName: { default: 'app', pattern: '^[a-z-]+$' } } },
+        modules: { M: { variables: { port: { default: '3000', pattern: '^\\d+$' } } } },
+      };
+
+      (b as any).variableOverrides = { port: '8080' };
+      await (b as any).resolveVariables(['M']);
+      expect((b as any).variables).toEqual({ projectName: 'app', port: '8080' });
+
+      (b as any).variableOverrides = { projectName: 'Bad Name' };
+      await expect((b as any).resolveVariables(['M'])).rejects.toThrow("Invalid value 'Bad Name' for variable 'projectName'");
+    });
+
+    it('resolveVariables rejects a value that only partly matches the pattern', async () => {
+      const b = new BoilIt();
+      (b as any).config = { modules: { M: { variables: { slug: { pattern: '[a-z]+' } } } } };
+
+      (b as any).variableOverrides = { slug: 'ABC-x' };
+      await expect((b as any).resolveVariables(['M'])).rejects.toThrow("Invalid value 'ABC-x' for variable 'slug'");
+
+      (b as any).variableOverrides = { slug: 'abc' };
+      await (b as any).resolveVariables(['M']);
+      expect((b as any).variables).toEqual({ slug: 'abc' });
+    });
+
+    it('resolveVariables fails when a variable has no value', async () => {
+      const b = new BoilIt();
+      (b as any).config = { modules: { M: { variables: { owner: { prompt: 'Owner?' } } } } };
+      await expect((b as any).resolveVariables(['M'])).rejects.toThrow("No value for variable 'owner'");
+    });
+
+    it('resolveVariables prompts when interactive', async () => {
+      const b = new BoilIt();
+      (b as any).interactive = true;
+      (b as any).config = { modules: { M: { variables: { owner: { prompt: 'Owner?' } } } } };
+      jest.doMock('inquirer', () => ({ __esModule: true, default: { prompt: jest.fn().mockResolvedValue({ value: 'acme' }) } }));
+
+      await (b as any).resolveVariables(['M']);
+      expect((b as any).variables).toEqual({ owner: 'acme' });
+    });
+
+    it('copyToTarget substitutes variables in text contents and destination paths', async () => {
+      const b = new BoilIt();
+      const repoDir = path.join(process.cwd(), '.repo');
+      const target = path.join(process.cwd(), '.out');
+      (b as any).config = { modules: { M: {} } };
+      (b as any).variables = { projectName: 'shop' };
+
+      fsExtra.readdir.mockImplementation(async (dir: string) => dir === repoDir ? ['{{projectName}}.md', 'logo.png'] : []);
+      fsExtra.stat.mockResolvedValue({ isDirectory: () => false } as any);
+      fsExtra.readFile.mockImplementation(async (p: string) =>
+        p.endsWith('.png') ? Buffer.from([0x00, 0x7b, 0x7b]) : Buffer.from('# {{projectName}}'));
+      fsExtra.pathExists.mockResolvedValue(false);
+      fsExtra.ensureDir.mockResolvedValue(undefined);
+      fsExtra.writeFile.mockResolvedValue(undefined);
+      fsExtra.copy.mockResolvedValue(undefined);
+
+      await (b as any).copyToTarget(repoDir, target, ['M']);
+
+      const staged = path.join(process.cwd(), '.boilit-temp', '.rendered', '{{projectName}}.md');
+      expect(fsExtra.writeFile).toHaveBeenCalledWith(staged, '# shop');
+      expect(fsExtra.copy).toHaveBeenCalledWith(staged, path.join(target, 'shop.md'), { overwrite: true });
+      expect(fsExtra.copy).toHaveBeenCalledWith(path.join(repoDir, 'logo.png'), path.join(target, 'logo.png'), { overwrite: true });
+    });
+
+    it('validateConfig rejects invalid variable patterns', () => {
+      const b = new BoilIt();
+      (b as any).config = { modules: { M: { variables: { x: { pattern: '(' } } } } };
+      expect(() => (b as any).validateConfig()).toThrow("Module 'M' has an invalid pattern for variable 'x'");
+    });
+  });
+
+  describe('hooks', () => {
+    const config = {
+      default: { origin: 'o', hooks: { postApply: ['echo default'] } },
+      modules: {
+        auth: { hooks: { preApply: ['echo pre-auth'], postApply: ['npm install'] } },
+        user: { hooks: { postApply: ['npm run codegen -- {{name}}'] } },
+      },
+    };
+
+    it('collectHooks orders stages, then default and modules in apply order', () => {
+      const b = new BoilIt();
+      (b as any).config = config;
+      (b as any).variables = { name: 'user' };
+      expect((b as any).collectHooks(['auth', 'user'])).toEqual([
+        { module: 'auth', stage: 'preApply', command: 'echo pre-auth' },
+        { module: '[default]', stage: 'postApply', command: 'echo default' },
+        { module: 'auth', stage: 'postApply', command: 'npm install' },
+        { module: 'user', stage: 'postApply', command: 'npm run codegen -- user' },
+      ]);
+    });
+
+    it('confirmHooks skips hooks without --allow-hooks when not interactive', async () => {
+      const b = new BoilIt();
+      const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+      (b as any).hooks = [{ module: 'auth', stage: 'postApply', command: 'npm install' }];
+
+      await expect((b as any).confirmHooks()).resolves.toBe(false);
+      (b as any).allowHooks = true;
+      await expect((b as any).confirmHooks()).resolves.toBe(true);
+      logSpy.mockRestore();
+    });
+
+    it('confirmHooks asks for confirmation when interactive', async () => {
+      const b = new BoilIt();
+      const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+      (b as any).interactive = true;
+      (b as any).hooks = [{ module: 'auth', stage: 'postApply', command: 'npm install' }];
+      jest.doMock('inquirer', () => ({ __esModule: true, default: { prompt: jest.fn().mockResolvedValue({ confirmed: true }) } }));
+
+      await expect((b as any).confirmHooks()).resolves.toBe(true);
+      logSpy.mockRestore();
+    });
+
+    it('runHooks runs commands in the target path and names the failing module', async () => {
+      const b = new BoilIt();
+      const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+      (b as any).hooks = [
+        { module: 'auth', stage: 'postApply', command: 'npm install' },
+        { module: 'user', stage: 'postApply', command: 'exit 3' },
+      ];
+      const err: any = new Error('failed');
+      err.exitCode = 3;
+      execaMock.mockImplementation(async (cmd: string) => { if (cmd === 'exit 3') throw err; return {}; });
+
+      const run = (b as any).runHooks('postApply', 'target');
+      await expect(run).rejects.toBeInstanceOf(HookFailedError);
+      await expect(run).rejects.toThrow("Hook 'exit 3' of module 'user' failed with exit code 3");
+      expect(execaMock).toHaveBeenCalledWith('npm install', { shell: true, cwd: 'target', stdio: 'inherit' });
+      logSpy.mockRestore();
+    });
+  });
+
   it('use() handles OperationCancelledError with spinner.info', async () => {
     const b = new BoilIt();
 
     fsExtra.ensureDir.mockResolvedValue(undefined);
     fsExtra.emptyDir.mockResolvedValue(undefined);
-    fsExtra.pathExists.mockResolvedValue(true);
+    fsExtra.pathExists.mockImplementation(existsInSource);
     fsExtra.readFile.mockResolvedValue(goodToml);
     fsExtra.copy.mockResolvedValue(undefined);
     fsExtra.remove.mockResolvedValue(undefined);
@@ -247,21 +1138,22 @@ describe('BoilIt core flows', () => {
       return {};
     });
 
-    await (b as any).prepareRepoForModule(repoDir, mod);
+    await (b as any).prepareRepoForModule(repoDir, 'M', mod);
     expect(cherrySpy).toHaveBeenCalledTimes(2);
     cherrySpy.mockRestore();
   });
 
   it('cherryPickWithConflictHandling calls handleMergeConflict on exitCode 1', async () => {
     const b = new BoilIt();
+    (b as any).interactive = true;
     const err: any = new Error('conflict');
     err.exitCode = 1;
 
-    execaMock.mockRejectedValue(err);
+    execaMock.mockRejectedValueOnce(err).mockResolvedValue({ stdout: '' } as any);
     const spy = jest.spyOn(b as any, 'handleMergeConflict').mockResolvedValue(undefined as any);
 
     await (b as any).cherryPickWithConflictHandling('/repo', 'ref');
-    expect(spy).toHaveBeenCalledWith('/repo', 'ref');
+    expect(spy).toHaveBeenCalledWith('/repo', 'ref', 'use');
     spy.mockRestore();
   });
 
@@ -361,7 +1253,7 @@ describe('BoilIt core flows', () => {
 
     fsExtra.ensureDir.mockResolvedValue(undefined);
     fsExtra.emptyDir.mockResolvedValue(undefined);
-    fsExtra.pathExists.mockResolvedValue(true);
+    fsExtra.pathExists.mockImplementation(existsInSource);
     fsExtra.readFile.mockResolvedValue(goodToml);
 
     execaMock.mockResolvedValue({});
@@ -386,7 +1278,7 @@ describe('BoilIt core flows', () => {
 
     fsExtra.ensureDir.mockResolvedValue(undefined);
     fsExtra.emptyDir.mockResolvedValue(undefined);
-    fsExtra.pathExists.mockResolvedValue(true);
+    fsExtra.pathExists.mockImplementation(existsInSource);
     fsExtra.readFile.mockResolvedValue(badToml);
 
     execaMock.mockResolvedValue({});
@@ -491,13 +1383,13 @@ describe('BoilIt core flows', () => {
     spy.mockRestore();
   });
 
-  it('resolveAndApplyModules throws when configuration not loaded', async () => {
+  it('resolveModules throws when configuration not loaded', async () => {
     const b = new BoilIt();
     // config remains null
-    await expect((b as any).resolveAndApplyModules(['x'], '.')).rejects.toThrow('Configuration not loaded');
+    await expect((b as any).resolveModules(['x'])).rejects.toThrow('Configuration not loaded');
   });
 
-  it('resolveAndApplyModules throws when a module is missing during application', async () => {
+  it('resolveModules throws when a module is missing during application', async () => {
     const b = new BoilIt();
     (b as any).config = { modules: { present: {} } } as any;
     jest.spyOn(b as any, 'resolveDependencies').mockReturnValue(['missing']);
@@ -505,7 +1397,7 @@ describe('BoilIt core flows', () => {
     // stub copyToTarget to avoid fs
     jest.spyOn(b as any, 'copyToTarget').mockResolvedValue(undefined);
 
-    await expect((b as any).resolveAndApplyModules([], '.')).rejects.toThrow("Module 'missing' not found");
+    await expect((b as any).resolveModules([])).rejects.toThrow("Module 'missing' not found");
   });
 
   it('applyModuleRefs fails with generic error path (spinner.fail)', async () => {
@@ -519,7 +1411,7 @@ describe('BoilIt core flows', () => {
 
     fsExtra.ensureDir.mockResolvedValue(undefined);
     fsExtra.emptyDir.mockResolvedValue(undefined);
-    fsExtra.pathExists.mockResolvedValue(true);
+    fsExtra.pathExists.mockImplementation(existsInSource);
     fsExtra.readFile.mockResolvedValue('name = "Repo"\nmodules = "nope"');
 
     execaMock.mockResolvedValue({});
@@ -557,7 +1449,7 @@ describe('BoilIt core flows', () => {
   it('prepareRepoForModule returns early when refs empty', async () => {
     const b = new BoilIt();
     // Should not call execa at all
-    const result = await (b as any).prepareRepoForModule('/repo', { refs: [] });
+    const result = await (b as any).prepareRepoForModule('/repo', 'M', { refs: [] });
     expect(result).toBeUndefined();
   });
 
@@ -0,0 +1,92 @@
+import execa from 'execa';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { RepoCache, defaultCacheDir } from '../cache';
+
+const git = (cwd: string, ...args: string[]) =>
+  execa('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], { cwd });
+
+describe('RepoCache', () => {
+  let dir: string;
+  let source: string;
+  let cacheRoot: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'boilit-cache-'));
+    source = path.join(dir, 'source');
+    cacheRoot = path.join(dir, 'cache');
+    await fs.ensureDir(source);
+    await git(source, 'init', '-q');
+    await fs.writeFile(path.join(source, 'a.txt'), 'a');
+    await git(source, 'add', '-A');
+    await git(source, 'commit', '-qm', 'first');
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('mirrors on first use and fetches new commits later', async () => {
+    const mirror = await new RepoCache(cacheRoot).ensure(source);
+    expect(mirror).toBe(new RepoCache(cacheRoot).pathFor(source));
+    expect(await fs.pathExists(path.join(mirror, 'HEAD'))).toBe(true);
+
+    await fs.writeFile(path.join(source, 'b.txt'), 'b');
+    await git(source, 'add', '-A');
+    await git(source, 'commit', '-qm', 'second');
+    const { stdout: tip } = await git(source, 'rev-parse', 'HEAD');
+
+    await new RepoCache(cacheRoot).ensure(source);
+    await expect(git(mirror, 'cat-file', '-e', tip)).resolves.toBeDefined();
+  });
+
+  it('runs git through the executor it was given', async () => {
+    const calls: string[][] = [];
+    const cache = new RepoCache(cacheRoot, false, (args, options) => {
+      calls.push(args);
+      return execa('git', args, options);
+    });
+
+    await cache.ensure(source);
+    await cache.list();
+
+    // Subcommand of each call, after `-C <dir>` when present
+    expect(calls.map((args) => (args[0] === '-C' ? args[2] : args[0]))).toEqual(['clone', 'config', 'config', 'config']);
+  });
+
+  it('offline mode only uses what is cached', async () => {
+    await expect(new RepoCache(cacheRoot, true).ensure(source)).rejects.toThrow('is not in the cache');
+
+    const mirror = await new RepoCache(cacheRoot).ensure(source);
+    await fs.remove(source);
+    await expect(new RepoCache(cacheRoot, true).ensure(source)).resolves.toBe(mirror);
+  });
+
+  it('lists, prunes and clears entries', async () => {
+    const cache = new RepoCache(cacheRoot);
+    await cache.ensure(source);
+
+    const [entry] = await cache.list();
+    expect(entry.url).toBe(source);
+    expect(entry.size).toBeGreaterThan(0);
+    expect(entry.lastUsed).toBeInstanceOf(Date);
+
+    await expect(cache.prune(30)).resolves.toEqual([]);
+    const pruned = await cache.prune(30, Date.now() + 31 * 24 * 60 * 60 * 1000);
+    expect(pruned.map((e) => e.url)).toEqual([source]);
+    await expect(cache.list()).resolves.toEqual([]);
+
+    await cache.ensure(source);
+    await expect(cache.clear()).resolves.toBe(1);
+    await expect(cache.list()).resolves.toEqual([]);
+  });
+
+  it('honors BOILIT_CACHE_DIR', () => {
+    const previous = process.env.BOILIT_CACHE_DIR;
+    process.env.BOILIT_CACHE_DIR = '/somewhere/cache';
+    expect(defaultCacheDir()).toBe('/somewhere/cache');
+    if (previous === undefined) delete process.env.BOILIT_CACHE_DIR;
+    else process.env.BOILIT_CACHE_DIR = previous;
+  });
+});
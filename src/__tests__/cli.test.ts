@@ -106,3 +106,414 @@ describe('CLI run()', () => {
     }
   });
 });
+
+describe('CLI handleList()', () => {
+  let logSpy: jest.SpyInstance;
+  let errorSpy: jest.SpyInstance;
+  let handleList: any;
+
+  const config = {
+    name: 'Repo',
+    modules: {
+      auth: { description: 'Auth', refs: ['auth-branch'] },
+      payment: { refs: ['payment-branch'], dependencies: ['auth'], path: 'custom/payment', files: ['modules/*.md'] },
+    },
+  };
+
+  beforeEach(() => {
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.isolateModules(() => {
+      handleList = require('../cli').handleList;
+    });
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+    jest.resetModules();
+    jest.clearAllMocks();
+  });
+
+  it('prints a table with module details', async () => {
+    const list = jest.fn().mockResolvedValue(config);
+    const code = await handleList('https://x/y.git', {}, { createBoilIt: () => ({ list } as any) });
+    expect(code).toBe(0);
+    const output = logSpy.mock.calls.map((c) => c[0]).join('\n');
+    expect(output).toContain('auth-branch');
+    expect(output).toContain('custom/payment');
+    expect(output).toContain('modules/*.md');
+  });
+
+  it('prints JSON with --json', async () => {
+    const list = jest.fn().mockResolvedValue(config);
+    const code = await handleList('https://x/y.git', { json: true }, { createBoilIt: () => ({ list } as any) });
+    expect(code).toBe(0);
+    expect(JSON.parse(logSpy.mock.calls[0][0])).toEqual(config);
+  });
+
+  it('returns 1 when listing fails', async () => {
+    const list = jest.fn().mockRejectedValue(new Error('boom'));
+    const code = await handleList('https://x/y.git', {}, { createBoilIt: () => ({ list } as any) });
+    expect(code).toBe(1);
+    expect(errorSpy.mock.calls[0][0]).toContain('boom');
+  });
+});
+
+describe('CLI handleConfigShow()', () => {
+  it('prints the resolved config as TOML', async () => {
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const { handleConfigShow } = require('../cli');
+    const showConfig = jest.fn().mockResolvedValue({ name: 'Repo', modules: { auth: { refs: ['auth-branch'] } } });
+
+    const code = await handleConfigShow('https://x/y.git', { resolved: true }, { createBoilIt: () => ({ showConfig } as any) });
+
+    expect(code).toBe(0);
+    expect(showConfig).toHaveBeenCalledWith('https://x/y.git', { resolved: true });
+    expect(logSpy.mock.calls[0][0]).toContain('[modules.auth]');
+    logSpy.mockRestore();
+  });
+});
+
+describe('CLI dry run output', () => {
+  it('handleUse prints the plan returned by a dry run', async () => {
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const { handleUse } = require('../cli');
+    const report = {
+      dryRun: true,
+      order: ['auth', 'user'],
+      modules: {
+        auth: [{ ref: 'auth-branch', origin: 'https://x/y.git', commits: [{ sha: '0123456789abcdef', subject: 'Add auth' }] }],
+        user: [],
+      },
+      files: [
+        { path: 'a.md', status: 'new' },
+        { path: 'b.md', status: 'changed' },
+      ],
+    };
+    const use = jest.fn().mockResolvedValue(report);
+
+    const code = await handleUse('https://x/y.git', [], { dryRun: true }, { createBoilIt: () => ({ use } as any) });
+
+    expect(code).toBe(0);
+    const output = logSpy.mock.calls[0][0];
+    expect(output).toContain('1. auth');
+    expect(output).toContain('0123456789ab Add auth');
+    expect(output).toContain('b.md');
+    expect(output).toContain('1 new, 0 identical, 1 changed');
+    logSpy.mockRestore();
+  });
+});
+
+describe('CLI collectVar()', () => {
+  it('accumulates key=value pairs and keeps "=" in values', () => {
+    const { collectVar } = require('../cli');
+    expect(collectVar('b=x=y', collectVar('a=1'))).toEqual({ a: '1', b: 'x=y' });
+  });
+
+  it('rejects values without a key', () => {
+    const { collectVar } = require('../cli');
+    expect(() => collectVar('novalue')).toThrow('Expected key=value');
+    expect(() => collectVar('=x')).toThrow('Expected key=value');
+  });
+});
+
+describe('CLI handleCache()', () => {
+  let logSpy: jest.SpyInstance;
+  let errorSpy: jest.SpyInstance;
+  let handleCache: any;
+
+  const entry = { url: 'https://x/y.git', path: '/cache/repos/abc.git', size: 2048, lastUsed: new Date(0) };
+
+  beforeEach(() => {
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    handleCache = require('../cli').handleCache;
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+
+  it('ls prints entries with their size', async () => {
+    const cache = { list: jest.fn().mockResolvedValue([entry]) };
+    const code = await handleCache('ls', {}, { createCache: () => cache as any });
+    expect(code).toBe(0);
+    expect(logSpy.mock.calls[0][0]).toContain('https://x/y.git');
+    expect(logSpy.mock.calls[0][0]).toContain('2.0 KB');
+  });
+
+  it('prune passes --max-age and rejects invalid values', async () => {
+    const cache = { prune: jest.fn().mockResolvedValue([entry]) };
+    expect(await handleCache('prune', { maxAge: '7' }, { createCache: () => cache as any })).toBe(0);
+    expect(cache.prune).toHaveBeenCalledWith(7);
+
+    expect(await handleCache('prune', { maxAge: 'soon' }, { createCache: () => cache as any })).toBe(1);
+    expect(errorSpy.mock.calls[0][0]).toContain("Invalid --max-age 'soon'");
+  });
+
+  it('clear reports how many entries were removed', async () => {
+    const cache = { clear: jest.fn().mockResolvedValue(2) };
+    expect(await handleCache('clear', {}, { createCache: () => cache as any })).toBe(0);
+    expect(logSpy.mock.calls[0][0]).toContain('Removed 2 cached repositories');
+  });
+});
+
+describe('CLI conflict sessions', () => {
+  let logSpy: jest.SpyInstance;
+  let errorSpy: jest.SpyInstance;
+  let cli: any;
+
+  const status = {
+    repoDir: '/work/.boilit-temp/repo',
+    conflictedFiles: ['README.md'],
+    session: {
+      repo: 'https://x/y.git',
+      targetPath: '/work',
+      order: ['auth', 'user', 'extra'],
+      current: { module: 'user', refs: [{ ref: 'user-branch', origin: 'https://x/y.git', commits: ['a'.repeat(40), 'b'.repeat(40)] }], refIndex: 0, shaIndex: 1 },
+    },
+  };
+
+  beforeEach(() => {
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    cli = require('../cli');
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+
+  it('status describes the paused module, commit, queue and conflicts', async () => {
+    const boilit = { status: jest.fn().mockResolvedValue(status) };
+    expect(await cli.handleStatus({}, { createBoilIt: () => boilit as any })).toBe(0);
+
+    const out = chalk.reset(logSpy.mock.calls[0][0]);
+    expect(out).toContain('Applied:   auth');
+    expect(out).toContain(`Current:   user, ref user-branch, commit ${'b'.repeat(12)} (2/2)`);
+    expect(out).toContain('Remaining: extra');
+    expect(out).toContain('/work/.boilit-temp/repo');
+    expect(out).toContain('  README.md');
+  });
+
+  it('status reports drift when there is no session', async () => {
+    const clean = { files: [], upstream: [], drifted: false };
+    const boilit = { status: jest.fn().mockResolvedValue(null), drift: jest.fn().mockResolvedValue(clean) };
+    expect(await cli.handleStatus({ path: 'app' }, { createBoilIt: () => boilit as any })).toBe(0);
+    expect(boilit.drift).toHaveBeenCalledWith({ path: 'app', cache: undefined, offline: undefined });
+    expect(logSpy.mock.calls[0][0]).toContain('Up to date');
+  });
+
+  it('status lists changed files and moved refs and exits with the drift code', async () => {
+    const report = {
+      files: [
+        { source: 'https://x/y.git', path: 'a.ts', status: 'modified', modules: ['auth'] },
+        { source: 'https://x/y.git', path: 'b.ts', status: 'deleted', modules: ['auth', 'user'] },
+      ],
+      upstream: [
+        { source: 'https://x/y.git', module: 'user', ref: 'user-branch', origin: 'https://x/y.git', applied: 'a'.repeat(40), latest: 'b'.repeat(40), behind: 2 },
+        { source: 'https://x/y.git', module: 'auth', ref: 'auth-branch', origin: 'https://x/y.git', applied: 'c'.repeat(40), latest: 'd'.repeat(40), behind: null },
+      ],
+      drifted: true,
+    };
+    const boilit = { status: jest.fn().mockResolvedValue(null), drift: jest.fn().mockResolvedValue(report) };
+
+    expect(await cli.handleStatus({}, { createBoilIt: () => boilit as any })).toBe(cli.DRIFT_EXIT_CODE);
+    const out = chalk.reset(logSpy.mock.calls[0][0]);
+    expect(out).toContain('modified: a.ts (auth)');
+    expect(out).toContain('deleted:  b.ts (auth, user)');
+    expect(out).toContain(`user user-branch: 2 new commits (aaaaaaa -> bbbbbbb)`);
+    expect(out).toContain('auth auth-branch: history rewritten');
+
+    logSpy.mockClear();
+    expect(await cli.handleStatus({ json: true }, { createBoilIt: () => boilit as any })).toBe(cli.DRIFT_EXIT_CODE);
+    expect(JSON.parse(logSpy.mock.calls[0][0])).toEqual(report);
+  });
+
+  it('continue and skip resume the session', async () => {
+    const boilit = { resume: jest.fn().mockResolvedValue({ dryRun: false }) };
+    expect(await cli.handleResume('skip', {}, { createBoilIt: () => boilit as any })).toBe(0);
+    expect(boilit.resume).toHaveBeenCalledWith('skip');
+
+    boilit.resume.mockRejectedValue(new Error('Conflict markers remain in: README.md'));
+    expect(await cli.handleResume('continue', {}, { createBoilIt: () => boilit as any })).toBe(1);
+    expect(errorSpy.mock.calls[0][0]).toContain('Conflict markers remain in: README.md');
+  });
+
+  it('exits with a distinct code listing the conflicted module, commit and files', async () => {
+    const { ConflictError } = require('../errors');
+    const boilit = { use: jest.fn().mockRejectedValue(new ConflictError('user', 'abc123', ['README.md'])) };
+
+    expect(await cli.handleUse('https://x/y.git', [], { nonInteractive: true }, { createBoilIt: () => boilit as any }))
+      .toBe(cli.CONFLICT_EXIT_CODE);
+    expect(cli.CONFLICT_EXIT_CODE).not.toBe(1);
+    const out = errorSpy.mock.calls.map((c) => c[0]).join('\n');
+    expect(out).toContain("Conflict in module 'user' while cherry-picking abc123");
+    expect(out).toContain('file:   README.md');
+  });
+
+  it('abort discards the session', async () => {
+    const boilit = { abort: jest.fn().mockResolvedValue(status.session) };
+    expect(await cli.handleAbort({ createBoilIt: () => boilit as any })).toBe(0);
+    expect(logSpy.mock.calls[0][0]).toContain('/work was not modified');
+  });
+});
+
+describe('CLI --json', () => {
+  let writeSpy: jest.SpyInstance;
+  let cli: any;
+
+  const events = () => writeSpy.mock.calls.map((c) => JSON.parse(String(c[0])));
+
+  beforeEach(() => {
+    writeSpy = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    cli = require('../cli');
+  });
+
+  afterEach(() => {
+    writeSpy.mockRestore();
+  });
+
+  it('streams events and ends with done, without prompting', async () => {
+    const report = { dryRun: false, order: ['core'], modules: {}, files: [], hooks: [] };
+    let received: any;
+    const createBoilIt = (options: any) => {
+      received = options;
+      return {
+        use: jest.fn(async (_repo: string, _modules: string[], useOptions: any) => {
+          expect(useOptions).toEqual({ path: 'out', nonInteractive: true });
+          options.onEvent({ type: 'order-resolved', modules: ['core'] });
+          return report;
+        }),
+      } as any;
+    };
+
+    expect(await cli.handleUse('https://x/y.git', ['core'], { path: 'out', json: true }, { createBoilIt })).toBe(0);
+    expect(received.quiet).toBe(true);
+    expect(events()).toEqual([
+      { type: 'order-resolved', modules: ['core'] },
+      { type: 'done', code: 0, report },
+    ]);
+  });
+
+  it('ends with failed and the exit code', async () => {
+    const { ConflictError } = require('../errors');
+    const boilit = { use: jest.fn().mockRejectedValue(new ConflictError('user', 'abc', ['a.txt'])) };
+
+    const code = await cli.handleUse('https://x/y.git', [], { json: true }, { createBoilIt: () => boilit as any });
+
+    expect(code).toBe(cli.CONFLICT_EXIT_CODE);
+    expect(events()).toEqual([
+      { type: 'failed', code: cli.CONFLICT_EXIT_CODE, error: { name: 'ConflictError', message: expect.stringContaining("module 'user'") } },
+    ]);
+  });
+});
+
+describe('CLI remove', () => {
+  let logSpy: jest.SpyInstance;
+  let errorSpy: jest.SpyInstance;
+  let cli: any;
+
+  beforeEach(() => {
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    cli = require('../cli');
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+
+  it('lists deleted files and the ones it kept', async () => {
+    const report = { module: 'auth', source: 'https://x/y.git', removed: ['a.ts'], modified: ['b.ts'], shared: ['c.ts'], missing: ['d.ts'] };
+    const boilit = { remove: jest.fn().mockResolvedValue(report) };
+
+    expect(await cli.handleRemove('auth', { path: 'app' }, { createBoilIt: () => boilit as any })).toBe(0);
+    expect(boilit.remove).toHaveBeenCalledWith('auth', { path: 'app' });
+    const out = chalk.reset(logSpy.mock.calls[0][0]);
+    expect(out).toContain("Removed module 'auth' (1 file deleted)");
+    expect(out).toMatch(/modified since they were applied:\n  b\.ts/);
+    expect(out).toMatch(/also provided by other modules:\n  c\.ts/);
+    expect(out).toMatch(/Already gone from the project:\n  d\.ts/);
+  });
+
+  it('fails when the module is still required', async () => {
+    const boilit = { remove: jest.fn().mockRejectedValue(new Error("Cannot remove 'auth': required by user")) };
+    expect(await cli.handleRemove('auth', {}, { createBoilIt: () => boilit as any })).toBe(1);
+    expect(errorSpy.mock.calls[0][0]).toContain('required by user');
+  });
+});
+
+describe('CLI update', () => {
+  let logSpy: jest.SpyInstance;
+  let errorSpy: jest.SpyInstance;
+  let cli: any;
+
+  beforeEach(() => {
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    cli = require('../cli');
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+
+  it('lists the new commits per module and the merged files', async () => {
+    const report = {
+      source: 'https://x/y.git',
+      modules: [{ module: 'api', ref: 'api', from: 'a'.repeat(40), to: 'b'.repeat(40), commits: ['b'.repeat(40)] }],
+      files: [{ path: 'src/app.ts', status: 'updated' }, { path: 'src/old.ts', status: 'deleted' }],
+      skipped: false,
+    };
+    const boilit = { update: jest.fn().mockResolvedValue(report) };
+
+    expect(await cli.handleUpdate(['api'], { path: 'app' }, { createBoilIt: () => boilit as any })).toBe(0);
+    expect(boilit.update).toHaveBeenCalledWith(['api'], { path: 'app' });
+    const out = chalk.reset(logSpy.mock.calls[0][0]);
+    expect(out).toContain('api api: 1 commit (aaaaaaa -> bbbbbbb)');
+    expect(out).toContain('~ src/app.ts');
+    expect(out).toContain('- src/old.ts');
+  });
+
+  it('uses the conflict exit code when the merge conflicts', async () => {
+    const { ConflictError } = require('../errors');
+    const boilit = { update: jest.fn().mockRejectedValue(new ConflictError('api', 'abc', ['src/app.ts'])) };
+    expect(await cli.handleUpdate([], {}, { createBoilIt: () => boilit as any })).toBe(cli.CONFLICT_EXIT_CODE);
+  });
+});
+
+describe('CLI outdated', () => {
+  let logSpy: jest.SpyInstance;
+  let cli: any;
+
+  beforeEach(() => {
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    cli = require('../cli');
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+  });
+
+  it('prints current, wanted and latest versions and flags those outside the range', async () => {
+    const report = {
+      refs: [
+        { source: 's', module: 'auth', origin: 'o', range: '~1.0', current: 'v1.0.0', wanted: 'v1.0.1', latest: 'v2.0.0' },
+        { source: 's', module: 'api', origin: 'o', range: '^2', current: 'v2.0.0', wanted: 'v2.1.0', latest: 'v2.1.0' },
+      ],
+    };
+    const boilit = { outdated: jest.fn().mockResolvedValue(report) };
+
+    expect(await cli.handleOutdated({ path: 'app' }, { createBoilIt: () => boilit as any })).toBe(0);
+    expect(boilit.outdated).toHaveBeenCalledWith({ path: 'app', cache: undefined, offline: undefined });
+    const out = chalk.reset(logSpy.mock.calls[0][0]);
+    expect(out).toMatch(/auth\s+~1\.0\s+v1\.0\.0\s+v1\.0\.1\s+v2\.0\.0/);
+    expect(out).toContain('Newer versions outside the range: auth v2.0.0.');
+  });
+});
@@ -0,0 +1,84 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { commitOn, createBoilIt, createRepo, createTempDir, git } from './helpers/gitRepo';
+
+describe("BoilIt.use() with mode 'commit'", () => {
+  let dir: string;
+  let source: string;
+  let target: string;
+
+  const create = () => createBoilIt(dir);
+
+  const log = async () => (await git(target, 'log', '--format=%s|%an', '--reverse')).stdout.split('\n');
+
+  beforeEach(async () => {
+    dir = await createTempDir('commit');
+    source = path.join(dir, 'source');
+    target = path.join(dir, 'target');
+
+    await createRepo(source, [
+      'name = "Source"',
+      '[modules.api]',
+      'refs = ["api"]',
+      'files = ["*.ts"]',
+      '[modules.web]',
+      'refs = ["web"]',
+      'files = ["*.ts"]',
+      'dependencies = ["api"]',
+    ]);
+    await commitOn(source, 'api', { 'api.ts': 'api\n' }, 'Add api', 'Ada <ada@example.com>');
+    await commitOn(source, 'api', { 'client.ts': 'client\n' }, 'Add client', 'Ada <ada@example.com>');
+    await git(source, 'branch', 'web', 'api');
+    await commitOn(source, 'web', { 'web.ts': 'web\n' }, 'Add web');
+
+    await fs.ensureDir(target);
+    await git(target, 'init', '-q', '-b', 'main');
+    await fs.writeFile(path.join(target, 'README.md'), 'project\n');
+    await git(target, 'add', '-A');
+    await git(target, 'commit', '-qm', 'init');
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('commits each module and the lockfile separately', async () => {
+    await create().use('source', ['web'], { path: 'target', cache: false, mode: 'commit' });
+
+    expect(await log()).toEqual(['init|test', 'Apply module api|test', 'Apply module web|test', 'Update boilit.lock|test']);
+    expect((await git(target, 'show', '--name-only', '--format=', 'HEAD~2')).stdout.split('\n').sort()).toEqual([
+      'api.ts',
+      'client.ts',
+    ]);
+    const { stdout: message } = await git(target, 'log', '-1', '--format=%B', 'HEAD~1');
+    expect(message).toContain(`Source: ${source}`);
+    expect(message).toMatch(/^Ref: web \(.+\) [0-9a-f]{40}$/m);
+    expect((await git(target, 'status', '--porcelain')).stdout).toBe('');
+  });
+
+  it('keeps one commit per source commit with --preserve-history', async () => {
+    await create().use('source', ['api'], { path: 'target', cache: false, mode: 'commit', preserveHistory: true });
+
+    expect(await log()).toEqual(['init|test', 'Add api|Ada', 'Add client|Ada', 'Update boilit.lock|test']);
+    const { stdout: message } = await git(target, 'log', '-1', '--format=%B', 'HEAD~1');
+    expect(message).toMatch(/^Module: api\nRef: api\nSource-Commit: [0-9a-f]{40}$/m);
+  });
+
+  it('refuses a dirty working tree unless allowed', async () => {
+    await fs.writeFile(path.join(target, 'README.md'), 'local edit\n');
+
+    await expect(create().use('source', ['api'], { path: 'target', cache: false, mode: 'commit' })).rejects.toThrow(
+      'has uncommitted changes'
+    );
+    await create().use('source', ['api'], { path: 'target', cache: false, mode: 'commit', allowDirty: true });
+    expect(await log()).toHaveLength(3);
+    expect((await git(target, 'status', '--porcelain')).stdout).toBe(' M README.md');
+  });
+
+  it('requires the target to be a git repository', async () => {
+    await fs.remove(path.join(target, '.git'));
+    await expect(create().use('source', ['api'], { path: 'target', cache: false, mode: 'commit' })).rejects.toThrow(
+      'to be inside a git repository'
+    );
+  });
+});
@@ -0,0 +1,77 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { createBoilIt, createRepo, createTempDir, git } from './helpers/gitRepo';
+
+describe('BoilIt.drift()', () => {
+  let dir: string;
+  let source: string;
+  let target: string;
+
+  const create = () => createBoilIt(dir);
+
+  beforeEach(async () => {
+    dir = await createTempDir('drift');
+    source = path.join(dir, 'source');
+    target = path.join(dir, 'target');
+
+    await createRepo(
+      source,
+      [
+        'name = "Source"',
+        '[modules.auth]',
+        'refs = ["auth"]',
+        'path = "auth"',
+        'files = ["lib/**/*", "notes.md"]',
+        '[modules.user]',
+        'refs = ["user"]',
+        'dependencies = ["auth"]',
+        'files = ["user.ts"]',
+      ],
+      {
+        branches: {
+          auth: { 'lib/login.ts': 'login', 'lib/deep/token.ts': 'token', 'notes.md': 'auth notes' },
+          user: { 'user.ts': 'user' },
+        },
+      }
+    );
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('reports edited and deleted files and module refs that moved upstream', async () => {
+    await create().use('source', ['user'], { path: 'target', cache: false });
+    await expect(create().drift({ path: 'target', cache: false })).resolves.toEqual({ files: [], upstream: [], drifted: false });
+
+    await fs.writeFile(path.join(target, 'auth/notes.md'), 'my notes');
+    await fs.remove(path.join(target, 'user.ts'));
+    await git(source, 'checkout', '-q', 'user');
+    await fs.writeFile(path.join(source, 'user.ts'), 'user v2');
+    await git(source, 'commit', '-qam', 'Update user');
+    await git(source, 'commit', '-q', '--allow-empty', '-m', 'Touch user');
+    await git(source, 'checkout', '-q', 'main');
+
+    const report = await create().drift({ path: 'target', cache: false });
+
+    expect(report.drifted).toBe(true);
+    expect(report.files).toEqual([
+      { source, path: 'auth/notes.md', status: 'modified', modules: ['auth'] },
+      { source, path: 'user.ts', status: 'deleted', modules: ['user'] },
+    ]);
+    expect(report.upstream).toEqual([
+      expect.objectContaining({ module: 'user', ref: 'user', origin: source, behind: 2 }),
+    ]);
+    expect(await fs.pathExists(path.join(dir, 'temp'))).toBe(false);
+  });
+
+  it('flags refs whose applied commit was rewritten away', async () => {
+    await create().use('source', ['auth'], { path: 'target', cache: false });
+    await git(source, 'checkout', '-q', 'auth');
+    await git(source, 'commit', '-q', '--amend', '-m', 'Add auth again');
+    await git(source, 'checkout', '-q', 'main');
+
+    const report = await create().drift({ path: 'target', cache: false });
+    expect(report.upstream).toEqual([expect.objectContaining({ module: 'auth', behind: null })]);
+  });
+});
@@ -1,4 +1,4 @@
-import { OperationCancelledError } from '../errors';
+import { ConflictError, HookFailedError, OperationCancelledError } from '../errors';
 
 describe('OperationCancelledError', () => {
   it('should set name and default message', () => {
@@ -12,3 +12,27 @@ describe('OperationCancelledError', () => {
     expect(err.message).toBe('x');
   });
 });
+
+describe('HookFailedError', () => {
+  it('names the module, command and exit code', () => {
+    const err = new HookFailedError('auth', 'npm install', 1);
+    expect(err.name).toBe('HookFailedError');
+    expect(err.message).toBe("Hook 'npm install' of module 'auth' failed with exit code 1");
+    expect(err.module).toBe('auth');
+  });
+
+  it('omits the exit code when unknown', () => {
+    expect(new HookFailedError('auth', 'x').message).toBe("Hook 'x' of module 'auth' failed");
+  });
+});
+
+describe('ConflictError', () => {
+  it('lists the module, commit and conflicted files', () => {
+    const err = new ConflictError('user', 'abc123', ['README.md', 'src/a.ts']);
+    expect(err.name).toBe('ConflictError');
+    expect(err.message).toBe(
+      "Conflict in module 'user' while cherry-picking abc123: README.md, src/a.ts. " +
+        'Re-run interactively or with --conflict-strategy=ours|theirs|skip-commit.'
+    );
+  });
+});
@@ -0,0 +1,104 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { mergeConfigs } from '../extends';
+import { createBoilIt, createRepo, createTempDir, git } from './helpers/gitRepo';
+
+describe('mergeConfigs()', () => {
+  const parent = {
+    name: 'Base',
+    default: { origin: 'https://x/base.git', files: ['**/*.md'], ignore: ['drafts/**'], hooks: { postApply: ['npm i'] } },
+    modules: {
+      logging: { refs: ['logging'], origin: 'https://x/base.git' },
+      auth: { refs: ['auth'], origin: 'https://x/base.git', description: 'Auth' },
+    },
+  };
+
+  it('keeps parent modules and lets the child override them', () => {
+    const merged = mergeConfigs(parent, {
+      name: 'Child',
+      modules: { auth: { description: 'Custom auth' }, billing: { refs: ['billing'] } },
+    });
+
+    expect(merged.name).toBe('Child');
+    expect(merged.modules).toEqual({
+      logging: parent.modules.logging,
+      auth: { refs: ['auth'], origin: 'https://x/base.git', description: 'Custom auth' },
+      billing: { refs: ['billing'] },
+    });
+  });
+
+  it('drops the inherited origin when the child brings its own refs', () => {
+    expect(mergeConfigs(parent, { modules: { auth: { refs: ['my-auth'] } } }).modules).toEqual({
+      logging: parent.modules.logging,
+      auth: { refs: ['my-auth'], description: 'Auth' },
+    });
+  });
+
+  it('appends [default] arrays unless the child asks to replace them', () => {
+    expect(mergeConfigs(parent, { default: { files: ['src/**/*'], hooks: { postApply: ['npm test'] } } }).default)
+      .toEqual({
+        origin: 'https://x/base.git',
+        files: ['**/*.md', 'src/**/*'],
+        ignore: ['drafts/**'],
+        hooks: { postApply: ['npm i', 'npm test'] },
+      });
+    expect(mergeConfigs(parent, { default: { merge: 'replace', files: ['src/**/*'] } }).default).toEqual({
+      origin: 'https://x/base.git',
+      files: ['src/**/*'],
+      ignore: ['drafts/**'],
+      hooks: { postApply: ['npm i'] },
+    });
+  });
+});
+
+describe('extends', () => {
+  let dir: string;
+  let base: string;
+  let child: string;
+
+  const create = () => createBoilIt(dir);
+
+  beforeEach(async () => {
+    dir = await createTempDir('extends');
+    base = path.join(dir, 'base');
+    child = path.join(dir, 'child');
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('applies inherited modules from the parent repository', async () => {
+    await createRepo(base, ['name = "Base"', '[default]', 'origin = "unused"', 'files = ["*.md"]', '[modules.logging]', 'refs = ["logging"]'], {
+      branches: { logging: { 'logging.md': 'logging\n' } },
+    });
+    await git(base, 'tag', 'v1');
+    await createRepo(child, ['extends = ["../base#v1"]', 'name = "Child"'], {
+      branches: { billing: { 'billing.md': 'billing\n' } },
+    });
+    await fs.appendFile(path.join(child, 'boilit.toml'), '\n[modules.billing]\nrefs = ["billing"]\ndependencies = ["logging"]\n');
+    await git(child, 'commit', '-qam', 'billing module');
+
+    const resolved = await create().showConfig('child', { resolved: true, cache: false });
+    expect(resolved).toMatchObject({
+      name: 'Child',
+      default: { origin: child, files: ['*.md'] },
+      modules: { logging: { refs: ['logging'], origin: base }, billing: { refs: ['billing'] } },
+    });
+    expect(resolved.extends).toBeUndefined();
+    expect((await create().showConfig('child', { cache: false })).extends).toEqual(['../base#v1']);
+
+    await create().use('child', ['billing'], { path: 'target', cache: false });
+    expect(await fs.readFile(path.join(dir, 'target/logging.md'), 'utf-8')).toBe('logging\n');
+    expect(await fs.readFile(path.join(dir, 'target/billing.md'), 'utf-8')).toBe('billing\n');
+  });
+
+  it('reports inheritance cycles', async () => {
+    await createRepo(base, ['extends = ["../child"]', 'name = "Base"']);
+    await createRepo(child, ['extends = ["../base"]', 'name = "Child"']);
+
+    await expect(create().showConfig('child', { resolved: true, cache: false })).rejects.toThrow(
+      `Circular extends in boilit.toml: ${child} → ${base} → ${child}`
+    );
+  });
+});
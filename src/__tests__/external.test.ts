@@ -0,0 +1,251 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { readLockfile } from '../lockfile';
+import { createBoilIt, createRepo, createTempDir, git } from './helpers/gitRepo';
+
+describe('dependencies on other repositories', () => {
+  let dir: string;
+  let platform: string;
+  let product: string;
+  let target: string;
+
+  const create = () => createBoilIt(dir);
+
+  const createPlatform = (authDependencies = '["logging"]') =>
+    createRepo(
+      platform,
+      [
+        'name = "Platform"',
+        '[modules.logging]',
+        'refs = ["logging"]',
+        'files = ["platform/**/*"]',
+        '[modules.auth]',
+        'refs = ["auth"]',
+        `dependencies = ${authDependencies}`,
+        'files = ["platform/**/*"]',
+      ],
+      { branches: { logging: { 'platform/log.ts': 'log\n' }, auth: { 'platform/auth.ts': 'auth\n' } } }
+    );
+
+  const createProduct = () =>
+    createRepo(
+      product,
+      [
+        'name = "Product"',
+        '[modules.billing]',
+        'refs = ["billing"]',
+        `dependencies = [{ repo = "platform", module = "auth", ref = "v3" }]`,
+        'files = ["billing/**/*"]',
+      ],
+      { branches: { billing: { 'billing/index.ts': 'billing\n' } } }
+    );
+
+  beforeEach(async () => {
+    dir = await createTempDir('external');
+    platform = path.join(dir, 'platform');
+    product = path.join(dir, 'product');
+    target = path.join(dir, 'target');
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('applies the modules of the other repository first, each from its own source', async () => {
+    await createPlatform();
+    await git(platform, 'tag', 'v3');
+    await createProduct();
+
+    const plan = await create().use('product', ['billing'], { path: 'target', cache: false, dryRun: true });
+    expect(plan.order).toEqual(['billing']);
+    expect(plan.externals).toEqual([
+      expect.objectContaining({ source: platform, ref: 'v3', order: ['logging', 'auth'] }),
+    ]);
+
+    await create().use('product', ['billing'], { path: 'target', cache: false });
+    for (const file of ['platform/log.ts', 'platform/auth.ts', 'billing/index.ts']) {
+      expect(await fs.pathExists(path.join(target, file))).toBe(true);
+    }
+    const lock = await readLockfile(target);
+    expect(lock!.sources.map((source) => [source.url, source.ref, Object.keys(source.modules)])).toEqual([
+      [platform, 'v3', ['logging', 'auth']],
+      [product, undefined, ['billing']],
+    ]);
+  });
+
+  it('applies modules in dependency order when repositories depend on each other', async () => {
+    await createRepo(
+      platform,
+      [
+        'name = "Platform"',
+        '[modules.logging]',
+        'refs = ["logging"]',
+        'files = ["platform/log.ts"]',
+        '[modules.auth]',
+        'refs = ["auth"]',
+        'dependencies = [{ module = "logging" }, { repo = "product", module = "core" }]',
+        'files = ["platform/auth.ts"]',
+      ],
+      { branches: { logging: { 'platform/log.ts': 'log\n' }, auth: { 'platform/auth.ts': 'auth\n' } } }
+    );
+    await git(platform, 'tag', 'v3');
+    await createRepo(
+      product,
+      [
+        'name = "Product"',
+        '[modules.core]',
+        'refs = ["core"]',
+        'files = ["core/**/*"]',
+        '[modules.billing]',
+        'refs = ["billing"]',
+        `dependencies = [{ repo = "platform", module = "auth", ref = "v3" }]`,
+        'files = ["billing/**/*"]',
+      ],
+      { branches: { core: { 'core/index.ts': 'core\n' }, billing: { 'billing/index.ts': 'billing\n' } } }
+    );
+    const copied: string[] = [];
+
+    await create()
+      .on('file-copied', (event) => copied.push(event.path))
+      .use('product', ['billing'], { path: 'target', cache: false });
+
+    expect(copied).toEqual(['platform/log.ts', 'core/index.ts', 'platform/auth.ts', 'billing/index.ts']);
+    const lock = await readLockfile(target);
+    expect(lock!.sources.map((source) => [source.url, Object.keys(source.modules)])).toEqual([
+      [platform, ['logging', 'auth']],
+      [product, ['core', 'billing']],
+    ]);
+  });
+
+  it('refuses to remove a module that a module of another repository depends on', async () => {
+    await createPlatform();
+    await git(platform, 'tag', 'v3');
+    await createProduct();
+    await create().use('product', ['billing'], { path: 'target', cache: false });
+
+    const lock = await readLockfile(target);
+    expect(lock!.sources[1].modules.billing.dependencies).toEqual([{ url: platform, module: 'auth', ref: 'v3' }]);
+    await expect(create().remove('auth', { path: 'target' })).rejects.toThrow(
+      `Cannot remove 'auth': required by billing (${product})`
+    );
+    expect(await fs.pathExists(path.join(target, 'platform/auth.ts'))).toBe(true);
+
+    await create().remove('billing', { path: 'target' });
+    await expect(create().remove('auth', { path: 'target' })).resolves.toMatchObject({ module: 'auth' });
+  });
+
+  it('rejects depending on one repository at two refs', async () => {
+    await createPlatform();
+    await git(platform, 'tag', 'v3');
+    await git(platform, 'tag', 'v4');
+    await createRepo(
+      product,
+      [
+        'name = "Product"',
+        '[modules.billing]',
+        'refs = ["billing"]',
+        `dependencies = [{ repo = "platform", module = "auth", ref = "v3" }]`,
+        'files = ["billing/**/*"]',
+        '[modules.invoice]',
+        'refs = ["invoice"]',
+        `dependencies = [{ repo = "platform", module = "logging", ref = "v4" }]`,
+        'files = ["invoice/**/*"]',
+      ],
+      { branches: { billing: { 'billing/index.ts': 'billing\n' }, invoice: { 'invoice/index.ts': 'invoice\n' } } }
+    );
+
+    await expect(
+      create().use('product', ['billing', 'invoice'], { path: 'target', cache: false })
+    ).rejects.toThrow(`Module 'invoice' depends on ${platform} at ref 'v4', but it is also used at ref 'v3'`);
+
+    await create().use('product', ['billing'], { path: 'target', cache: false });
+    await expect(create().use('product', ['invoice'], { path: 'target', cache: false })).rejects.toThrow(
+      `Module 'invoice' depends on ${platform} at ref 'v4', but it is recorded in boilit.lock at ref 'v3'`
+    );
+  });
+
+  describe('with sync', () => {
+    const setup = async () => {
+      await createRepo(
+        platform,
+        [
+          'name = "Platform"',
+          '[modules.logging]',
+          'refs = ["logging"]',
+          'files = ["platform/log.ts"]',
+          '[modules.auth]',
+          'refs = ["auth"]',
+          'dependencies = ["logging"]',
+          'files = ["platform/auth.ts"]',
+          '[modules.auth.variables]',
+          'owner = { default = "nobody" }',
+        ],
+        { branches: { logging: { 'platform/log.ts': 'log\n' }, auth: { 'platform/auth.ts': 'auth by {{owner}}\n' } } }
+      );
+      await createRepo(
+        product,
+        [
+          'name = "Product"',
+          '[modules.billing]',
+          'refs = ["billing"]',
+          `dependencies = [{ repo = "platform", module = "auth" }]`,
+          'files = ["billing/**/*"]',
+        ],
+        { branches: { billing: { 'billing/index.ts': 'billing\n' } } }
+      );
+    };
+    const writeManifest = (lines: string[]) => fs.outputFile(path.join(target, 'boilit.project.toml'), lines.join('\n'));
+
+    it('applies the sources a source depends on first, with their settings', async () => {
+      await setup();
+      await writeManifest([
+        '[[sources]]',
+        'url = "../product"',
+        '[sources.modules.billing]',
+        '[[sources]]',
+        'url = "../platform"',
+        '[sources.modules.auth]',
+        'path = "vendor"',
+        'vars = { owner = "acme" }',
+      ]);
+
+      const report = await create().sync({ path: 'target', cache: false });
+
+      expect(report.sources.map((source) => [source.source, source.applied])).toEqual([
+        ['../platform', ['auth']],
+        ['../product', ['billing']],
+      ]);
+      expect(report.sources[1].report!.externals).toBeUndefined();
+      expect(await fs.readFile(path.join(target, 'vendor/platform/auth.ts'), 'utf-8')).toBe('auth by acme\n');
+    });
+
+    it('gives modules pulled in from another source the settings of that source', async () => {
+      await setup();
+      await writeManifest([
+        '[[sources]]',
+        'url = "../product"',
+        '[sources.modules.billing]',
+        '[[sources]]',
+        'url = "../platform"',
+        'vars = { owner = "acme" }',
+        '[sources.modules.logging]',
+      ]);
+
+      await create().sync({ path: 'target', cache: false });
+
+      expect(await fs.readFile(path.join(target, 'platform/auth.ts'), 'utf-8')).toBe('auth by acme\n');
+      const lock = await readLockfile(target);
+      expect(lock!.sources.find((source) => source.url === platform)!.variables).toEqual({ owner: 'acme' });
+    });
+  });
+
+  it('rejects a cycle across repositories', async () => {
+    await createPlatform('[{ module = "logging" }, { repo = "product", module = "billing" }]');
+    await git(platform, 'tag', 'v3');
+    await createProduct();
+
+    await expect(create().use('product', ['billing'], { path: 'target', cache: false })).rejects.toThrow(
+      'Circular dependency detected across repositories'
+    );
+  });
+});
@@ -0,0 +1,76 @@
+import execa from 'execa';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { BoilIt } from '../../boilit';
+import { BoilItOptions } from '../../types';
+
+/** Commit identity for the test repositories, so they work without a global git config. */
+export const identity = ['-c', 'user.name=test', '-c', 'user.email=test@example.com'];
+
+export const git = (cwd: string, ...args: string[]) => execa('git', [...identity, ...args], { cwd });
+
+/** Files to write in a commit; `null` deletes the file. */
+export type FileChanges = Record<string, string | null>;
+
+export interface RepoSetup {
+  /** Files committed on main next to boilit.toml. */
+  files?: Record<string, string>;
+  /** Branches created from main, each with one commit of its files. */
+  branches?: Record<string, FileChanges>;
+}
+
+export const createTempDir = (name: string) => fs.mkdtemp(path.join(os.tmpdir(), `boilit-${name}-`));
+
+/** A BoilIt working in `dir`, with its temp dir inside it and nothing logged. */
+export const createBoilIt = (dir: string, options: BoilItOptions = {}) =>
+  new BoilIt({
+    cwd: dir,
+    tempDir: path.join(dir, 'temp'),
+    logger: { log: () => undefined },
+    git: (args, gitOptions) => execa('git', [...identity, ...args], gitOptions),
+    ...options,
+  });
+
+/**
+ * Commits `files` on `branch`, which is created from main if it does not exist yet, and checks
+ * main out again.
+ */
+export async function commitOn(
+  repo: string,
+  branch: string,
+  files: FileChanges,
+  message = `Add ${branch}`,
+  author?: string
+) {
+  const exists = await execa('git', ['rev-parse', '--verify', '--quiet', `refs/heads/${branch}`], {
+    cwd: repo,
+    reject: false,
+  });
+  await git(repo, 'checkout', '-q', ...(exists.exitCode === 0 ? [branch] : ['-b', branch, 'main']));
+  for (const [file, content] of Object.entries(files)) {
+    if (content === null) {
+      await fs.remove(path.join(repo, file));
+    } else {
+      await fs.outputFile(path.join(repo, file), content);
+    }
+  }
+  await git(repo, 'add', '-A');
+  await git(repo, 'commit', '-qm', message, ...(author ? ['--author', author] : []));
+  await git(repo, 'checkout', '-q', 'main');
+}
+
+/** Creates a repository whose main branch holds `config` as boilit.toml. */
+export async function createRepo(repo: string, config: string[], { files = {}, branches = {} }: RepoSetup = {}) {
+  await fs.ensureDir(repo);
+  await git(repo, 'init', '-q', '-b', 'main');
+  await fs.writeFile(path.join(repo, 'boilit.toml'), config.join('\n'));
+  for (const [file, content] of Object.entries(files)) {
+    await fs.outputFile(path.join(repo, file), content);
+  }
+  await git(repo, 'add', '-A');
+  await git(repo, 'commit', '-qm', 'config');
+  for (const [branch, changes] of Object.entries(branches)) {
+    await commitOn(repo, branch, changes);
+  }
+}
@@ -0,0 +1,68 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { HookFailedError } from '../errors';
+import { readLockfile } from '../lockfile';
+import { createBoilIt, createRepo, createTempDir, git } from './helpers/gitRepo';
+
+describe('hooks', () => {
+  let dir: string;
+  let source: string;
+  let target: string;
+
+  const create = () => createBoilIt(dir);
+
+  const setup = (hooks: string[]) =>
+    createRepo(source, ['name = "Source"', '[modules.app]', 'refs = ["app"]', '[modules.app.hooks]', ...hooks], {
+      branches: { app: { 'app.txt': 'app\n' } },
+    });
+
+  beforeEach(async () => {
+    dir = await createTempDir('hooks');
+    source = path.join(dir, 'source');
+    target = path.join(dir, 'target');
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('writes boilit.lock even when a postApply hook fails', async () => {
+    await setup(['postApply = ["exit 3"]']);
+
+    await expect(
+      create().use('source', ['app'], { path: 'target', cache: false, allowHooks: true })
+    ).rejects.toBeInstanceOf(HookFailedError);
+
+    const lock = await readLockfile(target);
+    expect(Object.keys(lock!.sources[0].modules)).toEqual(['app']);
+    expect(lock!.sources[0].modules.app.files).toEqual({ 'app.txt': expect.any(String) });
+  });
+
+  it('passes variables to hook commands as single words', async () => {
+    await setup(['postApply = ["printf %s {{name}} > name.out"]']);
+    const name = 'x; touch injected $(touch injected2)';
+
+    await create().use('source', ['app'], { path: 'target', cache: false, allowHooks: true, vars: { name } });
+
+    expect(await fs.readFile(path.join(target, 'name.out'), 'utf-8')).toBe(name);
+    expect(await fs.pathExists(path.join(target, 'injected'))).toBe(false);
+    expect(await fs.pathExists(path.join(target, 'injected2'))).toBe(false);
+  });
+
+  it('commits the changes of postApply hooks in commit mode', async () => {
+    await setup(['postApply = ["echo generated > generated.txt"]']);
+    await fs.ensureDir(target);
+    await git(target, 'init', '-q', '-b', 'main');
+    await git(target, 'commit', '-q', '--allow-empty', '-m', 'init');
+
+    await create().use('source', ['app'], { path: 'target', cache: false, allowHooks: true, mode: 'commit' });
+
+    expect((await git(target, 'log', '--format=%s', '--reverse')).stdout.split('\n').slice(-3)).toEqual([
+      'Apply module app',
+      'Run postApply hooks',
+      'Update boilit.lock',
+    ]);
+    expect((await git(target, 'show', '--name-only', '--format=', 'HEAD~1')).stdout).toBe('generated.txt');
+    expect((await git(target, 'status', '--porcelain')).stdout).toBe('');
+  });
+});
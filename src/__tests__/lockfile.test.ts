@@ -0,0 +1,76 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import {
+  LOCKFILE_NAME,
+  findLockedSource,
+  readLockfile,
+  refreshFileHashes,
+  upsertLockedSource,
+  writeLockfile,
+} from '../lockfile';
+
+describe('lockfile', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'boilit-lock-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('returns null when there is no lockfile', async () => {
+    await expect(readLockfile(dir)).resolves.toBeNull();
+  });
+
+  it('round-trips through write and read', async () => {
+    const lock = upsertLockedSource(null, {
+      url: 'https://x/y.git',
+      commit: 'c0ffee',
+      modules: { auth: { refs: [{ ref: 'auth-branch', origin: 'https://x/y.git', commits: ['a1', 'a2'] }] } },
+    });
+    await writeLockfile(dir, lock);
+    await expect(readLockfile(dir)).resolves.toEqual(lock);
+  });
+
+  it('rejects malformed lockfiles', async () => {
+    await fs.writeFile(path.join(dir, LOCKFILE_NAME), '{ nope');
+    await expect(readLockfile(dir)).rejects.toThrow('Invalid JSON in boilit.lock');
+
+    await fs.writeFile(path.join(dir, LOCKFILE_NAME), JSON.stringify({ version: 2, sources: [] }));
+    await expect(readLockfile(dir)).rejects.toThrow('Invalid boilit.lock');
+  });
+
+  it('upsert keeps previously applied modules of the same source', () => {
+    const first = upsertLockedSource(null, {
+      url: 'u',
+      commit: 'c1',
+      modules: { auth: { refs: [] } },
+    });
+    const second = upsertLockedSource(first, {
+      url: 'u',
+      commit: 'c2',
+      modules: { user: { refs: [] } },
+    });
+
+    expect(second.sources).toHaveLength(1);
+    expect(findLockedSource(second, 'u')).toEqual({ url: 'u', commit: 'c2', modules: { auth: { refs: [] }, user: { refs: [] } } });
+    expect(findLockedSource(second, 'other')).toBeUndefined();
+  });
+
+  it('refreshes the hash of rewritten files in every module that lists them', () => {
+    const lock = upsertLockedSource(null, {
+      url: 'u',
+      commit: 'c1',
+      modules: { auth: { refs: [], files: { 'README.md': 'old', 'auth.ts': 'a' } }, legacy: { refs: [] } },
+    });
+
+    expect(refreshFileHashes(lock, { 'README.md': 'new' })!.sources[0].modules).toEqual({
+      auth: { refs: [], files: { 'README.md': 'new', 'auth.ts': 'a' } },
+      legacy: { refs: [] },
+    });
+    expect(refreshFileHashes(null, { 'README.md': 'new' })).toBeNull();
+  });
+});
@@ -0,0 +1,80 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { readLockfile } from '../lockfile';
+import { createBoilIt, createRepo, createTempDir } from './helpers/gitRepo';
+
+describe('module options', () => {
+  let dir: string;
+  let source: string;
+  let target: string;
+
+  const create = () => createBoilIt(dir);
+
+  beforeEach(async () => {
+    dir = await createTempDir('options');
+    source = path.join(dir, 'source');
+    target = path.join(dir, 'target');
+
+    await createRepo(
+      source,
+      [
+        'name = "Source"',
+        '[modules.pool]',
+        'refs = ["pool"]',
+        'files = ["pool/**/*"]',
+        '[modules.db]',
+        'refs = ["db"]',
+        'files = ["db/**/*"]',
+        '[modules.db.options.driver]',
+        'prompt = "Database driver"',
+        'choices = { pg = ["db-pg"], mysql = { refs = ["db-mysql"], files = ["mysql/**/*"], dependencies = ["pool"] } }',
+      ],
+      {
+        branches: {
+          pool: { 'pool/index.ts': 'pool\n' },
+          db: { 'db/index.ts': 'db\n' },
+          'db-pg': { 'db/driver.ts': 'pg\n' },
+          'db-mysql': { 'db/driver.ts': 'mysql\n', 'mysql/my.cnf': '[client]\n' },
+        },
+      }
+    );
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it("applies the chosen variant's refs, files and dependencies", async () => {
+    const report = await create().use('source', ['db'], { path: 'target', cache: false, opts: { 'db.driver': 'mysql' } });
+
+    expect(report.order).toEqual(['pool', 'db']);
+    expect(await fs.readFile(path.join(target, 'db/driver.ts'), 'utf-8')).toBe('mysql\n');
+    expect(await fs.pathExists(path.join(target, 'mysql/my.cnf'))).toBe(true);
+    expect(await fs.pathExists(path.join(target, 'pool/index.ts'))).toBe(true);
+    const lock = await readLockfile(target);
+    expect(lock!.sources[0].modules.db.options).toEqual({ driver: 'mysql' });
+    expect(lock!.sources[0].modules.db.refs.map((ref) => ref.ref)).toEqual(['db', 'db-mysql']);
+  });
+
+  it('replays the locked choice with --frozen', async () => {
+    await create().use('source', ['db'], { path: 'target', cache: false, opts: { 'db.driver': 'pg' } });
+    await fs.remove(path.join(target, 'db'));
+
+    const report = await create().use('source', [], { path: 'target', cache: false, frozen: true });
+
+    expect(report.order).toEqual(['db']);
+    expect(await fs.readFile(path.join(target, 'db/driver.ts'), 'utf-8')).toBe('pg\n');
+  });
+
+  it('requires a valid choice when it cannot prompt', async () => {
+    await expect(create().use('source', ['db'], { path: 'target', cache: false })).rejects.toThrow(
+      "No choice for option 'db.driver'. Pass it with --opt db.driver=<pg|mysql>."
+    );
+    await expect(
+      create().use('source', ['db'], { path: 'target', cache: false, opts: { 'db.driver': 'sqlite' } })
+    ).rejects.toThrow("Invalid choice 'sqlite' for option 'db.driver'. Choices: pg, mysql");
+    await expect(
+      create().use('source', ['db'], { path: 'target', cache: false, opts: { 'db.engine': 'pg' } })
+    ).rejects.toThrow("Unknown option 'db.engine'. Options of module 'db': db.driver");
+  });
+});
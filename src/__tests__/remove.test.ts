@@ -0,0 +1,109 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { readLockfile } from '../lockfile';
+import { createBoilIt, createRepo, createTempDir } from './helpers/gitRepo';
+
+describe('BoilIt.remove()', () => {
+  let dir: string;
+  let source: string;
+  let target: string;
+
+  const create = () => createBoilIt(dir);
+
+  beforeEach(async () => {
+    dir = await createTempDir('remove');
+    source = path.join(dir, 'source');
+    target = path.join(dir, 'target');
+
+    await createRepo(
+      source,
+      [
+        'name = "Source"',
+        '[modules.auth]',
+        'refs = ["auth"]',
+        'path = "auth"',
+        'files = ["lib/**/*", "notes.md"]',
+        '[modules.user]',
+        'refs = ["user"]',
+        'dependencies = ["auth"]',
+        'files = ["user.ts"]',
+        '[modules.docs]',
+        'files = ["docs/**/*"]',
+      ],
+      {
+        files: { 'docs/guide.md': 'guide' },
+        branches: {
+          auth: { 'lib/login.ts': 'login', 'lib/deep/token.ts': 'token', 'notes.md': 'auth notes' },
+          user: { 'user.ts': 'user' },
+        },
+      }
+    );
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('records the files each module wrote', async () => {
+    await create().use('source', ['auth'], { path: 'target', cache: false });
+
+    const lock = await readLockfile(target);
+    expect(Object.keys(lock!.sources[0].modules.auth.files!).sort()).toEqual([
+      'auth/lib/deep/token.ts',
+      'auth/lib/login.ts',
+      'auth/notes.md',
+    ]);
+  });
+
+  it('records the files a module without refs copies', async () => {
+    await create().use('source', ['docs'], { path: 'target', cache: false });
+
+    const lock = await readLockfile(target);
+    expect(Object.keys(lock!.sources[0].modules.docs.files!)).toEqual(['docs/guide.md']);
+  });
+
+  it('deletes unmodified files, keeps edited ones and cleans up empty directories', async () => {
+    await create().use('source', ['auth'], { path: 'target', cache: false });
+    await fs.writeFile(path.join(target, 'auth/notes.md'), 'my notes');
+
+    const report = await create().remove('auth', { path: 'target' });
+
+    expect(report.removed.sort()).toEqual(['auth/lib/deep/token.ts', 'auth/lib/login.ts']);
+    expect(report.modified).toEqual(['auth/notes.md']);
+    expect(await fs.pathExists(path.join(target, 'auth/lib'))).toBe(false);
+    expect(await fs.readFile(path.join(target, 'auth/notes.md'), 'utf-8')).toBe('my notes');
+    expect((await readLockfile(target))!.sources).toEqual([]);
+  });
+
+  it('cleans up the directories a module without a path created', async () => {
+    await create().use('source', ['docs'], { path: 'target', cache: false });
+    expect((await readLockfile(target))!.sources[0].modules.docs.dirs).toEqual(['docs']);
+
+    await create().remove('docs', { path: 'target' });
+
+    expect(await fs.pathExists(path.join(target, 'docs'))).toBe(false);
+    expect(await fs.pathExists(target)).toBe(true);
+  });
+
+  it('keeps directories that existed before the module was applied', async () => {
+    await fs.ensureDir(path.join(target, 'docs'));
+    await create().use('source', ['docs'], { path: 'target', cache: false });
+
+    await create().remove('docs', { path: 'target' });
+
+    expect(await fs.pathExists(path.join(target, 'docs/guide.md'))).toBe(false);
+    expect(await fs.pathExists(path.join(target, 'docs'))).toBe(true);
+  });
+
+  it('refuses to remove a module another applied module depends on', async () => {
+    await create().use('source', ['user'], { path: 'target', cache: false });
+
+    await expect(create().remove('auth', { path: 'target' })).rejects.toThrow("Cannot remove 'auth': required by user");
+    await create().remove('user', { path: 'target' });
+    await expect(create().remove('auth', { path: 'target' })).resolves.toMatchObject({ module: 'auth' });
+  });
+
+  it('fails for modules that were never applied', async () => {
+    await expect(create().remove('auth', { path: 'target' })).rejects.toThrow("Module 'auth' is not recorded");
+  });
+});
@@ -0,0 +1,116 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { commitOn, createBoilIt, createRepo, createTempDir, git } from './helpers/gitRepo';
+
+describe('scope = "changes"', () => {
+  let dir: string;
+  let source: string;
+  let target: string;
+
+  const create = () => createBoilIt(dir);
+
+  const setup = async (config: string[]) => {
+    await createRepo(source, config, {
+      files: { 'base.md': 'base\n' },
+      branches: {
+        auth: { 'auth.md': 'auth\n' },
+        payment: { 'payment.md': 'payment\n', 'modules/payment.md': 'payment module\n' },
+      },
+    });
+  };
+
+  const files = async (): Promise<string[]> => {
+    const found: string[] = [];
+    const walk = async (sub: string) => {
+      for (const entry of await fs.readdir(path.join(target, sub))) {
+        const rel = sub ? `${sub}/${entry}` : entry;
+        if ((await fs.stat(path.join(target, rel))).isDirectory()) await walk(rel);
+        else if (entry !== 'boilit.lock') found.push(rel);
+      }
+    };
+    await walk('');
+    return found.sort();
+  };
+
+  beforeEach(async () => {
+    dir = await createTempDir('scope');
+    source = path.join(dir, 'source');
+    target = path.join(dir, 'target');
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it("copies only a module's own changes under its path", async () => {
+    await setup([
+      'name = "Source"',
+      '[modules.auth]',
+      'refs = ["auth"]',
+      '[modules.payment]',
+      'refs = ["payment"]',
+      'dependencies = ["auth"]',
+      'path = "custom-folder/payment"',
+      'scope = "changes"',
+    ]);
+
+    await create().use('source', ['payment'], { path: 'target', cache: false });
+
+    expect(await files()).toEqual([
+      'auth.md',
+      'base.md',
+      'boilit.toml',
+      'custom-folder/payment/modules/payment.md',
+      'custom-folder/payment/payment.md',
+    ]);
+  });
+
+  it('applies [default].scope to modules and leaves their changes out of [default].files', async () => {
+    await setup([
+      'name = "Source"',
+      '[default]',
+      'origin = "unused"',
+      'files = ["**/*.md"]',
+      'scope = "changes"',
+      '[modules.auth]',
+      'refs = ["auth"]',
+      '[modules.payment]',
+      'refs = ["payment"]',
+      'dependencies = ["auth"]',
+      'path = "payment"',
+      'files = ["modules/*.md"]',
+    ]);
+
+    await create().use('source', ['payment'], { path: 'target', cache: false });
+
+    expect(await files()).toEqual(['auth.md', 'base.md', 'payment/modules/payment.md']);
+  });
+
+  it('copies a file two modules change as each module left it', async () => {
+    await createRepo(
+      source,
+      [
+        'name = "Source"',
+        '[default]',
+        'origin = "unused"',
+        'scope = "changes"',
+        '[modules.auth]',
+        'refs = ["auth"]',
+        'path = "auth"',
+        '[modules.payment]',
+        'refs = ["payment"]',
+        'dependencies = ["auth"]',
+        'path = "payment"',
+      ],
+      { files: { 'shared.md': 'base\n' } }
+    );
+    await commitOn(source, 'auth', { 'shared.md': 'auth\n' }, 'Change shared in auth');
+    await git(source, 'branch', 'payment', 'auth');
+    await commitOn(source, 'payment', { 'shared.md': 'payment\n' }, 'Change shared in payment');
+
+    await create().use('source', ['payment'], { path: 'target', cache: false });
+
+    expect(await fs.readFile(path.join(target, 'auth/shared.md'), 'utf-8')).toBe('auth\n');
+    expect(await fs.readFile(path.join(target, 'payment/shared.md'), 'utf-8')).toBe('payment\n');
+  });
+});
@@ -0,0 +1,44 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { SESSION_FILE, readSession, removeSession, writeSession } from '../session';
+import { Session } from '../types';
+
+describe('session', () => {
+  let dir: string;
+
+  const session: Session = {
+    version: 1,
+    repo: 'https://x/y.git',
+    localSource: null,
+    targetPath: '/work',
+    options: { onExisting: 'backup', vars: { name: 'demo' } },
+    configCommit: 'c0ffee',
+    config: { name: 'y', modules: { auth: { refs: ['auth-branch'] } }, default: { origin: 'https://x/y.git' } },
+    lockedSource: null,
+    order: ['auth'],
+    applied: {},
+    current: { module: 'auth', refs: [{ ref: 'auth-branch', origin: 'https://x/y.git', commits: ['a1'] }], refIndex: 0, shaIndex: 0 },
+  };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'boilit-session-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('round-trips through write, read and remove', async () => {
+    await expect(readSession(dir)).resolves.toBeNull();
+    await writeSession(dir, session);
+    await expect(readSession(dir)).resolves.toEqual(session);
+    await removeSession(dir);
+    await expect(readSession(dir)).resolves.toBeNull();
+  });
+
+  it('points at abort when the session file is corrupted', async () => {
+    await fs.writeFile(path.join(dir, SESSION_FILE), '{ nope');
+    await expect(readSession(dir)).rejects.toThrow("Run 'boilit abort' to discard it");
+  });
+});
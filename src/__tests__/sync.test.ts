@@ -0,0 +1,133 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { readLockfile } from '../lockfile';
+import { createBoilIt, createRepo, createTempDir } from './helpers/gitRepo';
+
+describe('sync', () => {
+  let dir: string;
+  let source: string;
+  let target: string;
+
+  const create = () => createBoilIt(dir);
+
+  const writeManifest = (lines: string[]) => fs.outputFile(path.join(target, 'boilit.project.toml'), lines.join('\n'));
+
+  beforeEach(async () => {
+    dir = await createTempDir('sync');
+    source = path.join(dir, 'source');
+    target = path.join(dir, 'target');
+
+    await createRepo(
+      source,
+      [
+        'name = "Source"',
+        '[modules.auth]',
+        'refs = ["auth"]',
+        'files = ["auth/**/*"]',
+        '[modules.billing]',
+        'refs = ["billing"]',
+        'dependencies = ["auth"]',
+        'files = ["billing/**/*"]',
+        '[modules.billing.variables]',
+        'currency = { default = "USD" }',
+        '[modules.invoice]',
+        'refs = ["invoice"]',
+        'files = ["invoice/**/*"]',
+        '[modules.invoice.variables]',
+        'currency = { default = "USD" }',
+        '[modules.report]',
+        'refs = ["report"]',
+        'files = ["report/**/*"]',
+        '[modules.report.options.format]',
+        'choices = { pdf = ["report-pdf"], csv = ["report-csv"] }',
+      ],
+      {
+        branches: {
+          auth: { 'auth/index.ts': 'auth\n' },
+          billing: { 'billing/index.ts': 'charge in {{currency}}\n' },
+          invoice: { 'invoice/index.ts': 'invoice in {{currency}}\n' },
+          report: { 'report/index.ts': 'report\n' },
+          'report-pdf': { 'report/format.ts': 'pdf\n' },
+          'report-csv': { 'report/format.ts': 'csv\n' },
+        },
+      }
+    );
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('applies the declared modules with their variables and paths', async () => {
+    await writeManifest([
+      '[[sources]]',
+      'url = "../source"',
+      '[sources.modules.billing]',
+      'path = "packages/billing"',
+      'vars = { currency = "EUR" }',
+    ]);
+
+    const report = await create().sync({ path: 'target', cache: false });
+
+    expect(report.sources).toEqual([expect.objectContaining({ source: '../source', applied: ['billing'] })]);
+    expect(await fs.readFile(path.join(target, 'auth/index.ts'), 'utf-8')).toBe('auth\n');
+    expect(await fs.readFile(path.join(target, 'packages/billing/billing/index.ts'), 'utf-8')).toBe('charge in EUR\n');
+    const lock = await readLockfile(target);
+    expect(lock!.sources[0].url).toBe(source);
+    expect(Object.keys(lock!.sources[0].modules).sort()).toEqual(['auth', 'billing']);
+  });
+
+  it('gives each module its own variable values', async () => {
+    await writeManifest([
+      '[[sources]]',
+      'url = "../source"',
+      '[sources.modules.billing]',
+      'vars = { currency = "EUR" }',
+      '[sources.modules.invoice]',
+      'vars = { currency = "JPY" }',
+    ]);
+
+    await create().sync({ path: 'target', cache: false });
+
+    expect(await fs.readFile(path.join(target, 'billing/index.ts'), 'utf-8')).toBe('charge in EUR\n');
+    expect(await fs.readFile(path.join(target, 'invoice/index.ts'), 'utf-8')).toBe('invoice in JPY\n');
+    const lock = await readLockfile(target);
+    expect(lock!.sources[0].modules.invoice.variables).toEqual({ currency: 'JPY' });
+  });
+
+  it('takes option choices from the manifest', async () => {
+    await writeManifest([
+      '[[sources]]',
+      'url = "../source"',
+      '[sources.modules.report]',
+      'opts = { format = "csv" }',
+    ]);
+
+    await create().sync({ path: 'target', cache: false, nonInteractive: true });
+
+    expect(await fs.readFile(path.join(target, 'report/format.ts'), 'utf-8')).toBe('csv\n');
+    const lock = await readLockfile(target);
+    expect(lock!.sources[0].modules.report.options).toEqual({ format: 'csv' });
+  });
+
+  it('only applies modules missing from boilit.lock', async () => {
+    await writeManifest(['[[sources]]', 'url = "../source"', '[sources.modules.auth]']);
+    await create().sync({ path: 'target', cache: false });
+
+    expect((await create().sync({ path: 'target', cache: false })).sources).toEqual([
+      { source: '../source', applied: [] },
+    ]);
+
+    await fs.appendFile(path.join(target, 'boilit.project.toml'), '\n[sources.modules.billing]\n');
+    const report = await create().sync({ path: 'target', cache: false });
+    expect(report.sources[0].applied).toEqual(['billing']);
+    expect(await fs.readFile(path.join(target, 'billing/index.ts'), 'utf-8')).toBe('charge in USD\n');
+  });
+
+  it('fails without a manifest', async () => {
+    await fs.ensureDir(target);
+    await expect(create().sync({ path: 'target', cache: false })).rejects.toThrow(
+      `No boilit.project.toml in ${target}`
+    );
+  });
+});
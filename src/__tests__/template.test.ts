@@ -0,0 +1,26 @@
+import { hasPlaceholders, isBinary, renderTemplate, shellQuote } from '../template';
+
+describe('template helpers', () => {
+  it('renders known placeholders and leaves unknown ones', () => {
+    expect(renderTemplate('{{projectName}} by {{ author }} ({{unknown}})', { projectName: 'app', author: 'me' }))
+      .toBe('app by me ({{unknown}})');
+  });
+
+  it('detects placeholders', () => {
+    expect(hasPlaceholders('name: {{projectName}}')).toBe(true);
+    expect(hasPlaceholders('name: {projectName}')).toBe(false);
+    // the shared regex must not keep state between calls
+    expect(hasPlaceholders('{{a}}')).toBe(true);
+    expect(hasPlaceholders('{{a}}')).toBe(true);
+  });
+
+  it('quotes values with shell characters as one word', () => {
+    expect(shellQuote('user-1.ts')).toBe('user-1.ts');
+    expect(shellQuote("a b; rm -rf ~ 'x'")).toBe("'a b; rm -rf ~ '\\''x'\\'''");
+  });
+
+  it('treats content with NUL bytes as binary', () => {
+    expect(isBinary(Buffer.from([0x89, 0x50, 0x00, 0x47]))).toBe(true);
+    expect(isBinary(Buffer.from('plain text'))).toBe(false);
+  });
+});
@@ -0,0 +1,76 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { ConflictError } from '../errors';
+import { readLockfile } from '../lockfile';
+import { commitOn, createBoilIt, createRepo, createTempDir, git } from './helpers/gitRepo';
+
+describe('BoilIt.update()', () => {
+  let dir: string;
+  let source: string;
+  let target: string;
+
+  const create = () => createBoilIt(dir);
+
+  const read = (file: string) => fs.readFile(path.join(target, file), 'utf-8');
+
+  beforeEach(async () => {
+    dir = await createTempDir('update');
+    source = path.join(dir, 'source');
+    target = path.join(dir, 'target');
+
+    await createRepo(source, ['name = "Source"', '[modules.api]', 'refs = ["api"]', 'files = ["src/**/*"]']);
+    await commitOn(source, 'api', { 'src/app.ts': 'one\ntwo\nthree\nfour\nfive\n', 'src/old.ts': 'old\n' }, 'Add api');
+
+    await create().use('source', ['api'], { path: 'target', cache: false });
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('three-way merges upstream changes with local edits and records the new commits', async () => {
+    await fs.writeFile(path.join(target, 'src/app.ts'), 'one\ntwo\nthree\nfour\nFIVE (local)\n');
+    await commitOn(source, 'api', { 'src/app.ts': 'ONE (upstream)\ntwo\nthree\nfour\nfive\n', 'src/new.ts': 'new\n', 'src/old.ts': null }, 'Change api');
+
+    const report = await create().update([], { path: 'target', cache: false });
+
+    expect(report.modules).toEqual([expect.objectContaining({ module: 'api', ref: 'api', commits: [expect.any(String)] })]);
+    expect(report.files).toEqual(expect.arrayContaining([
+      { path: 'src/app.ts', status: 'updated' },
+      { path: 'src/new.ts', status: 'added' },
+      { path: 'src/old.ts', status: 'deleted' },
+    ]));
+    expect(await read('src/app.ts')).toBe('ONE (upstream)\ntwo\nthree\nfour\nFIVE (local)\n');
+    expect(await fs.pathExists(path.join(target, 'src/old.ts'))).toBe(false);
+
+    const api = (await readLockfile(target))!.sources[0].modules.api;
+    expect(api.refs[0].commits).toHaveLength(2);
+    expect(Object.keys(api.files!).sort()).toEqual(['src/app.ts', 'src/new.ts']);
+    await expect(create().drift({ path: 'target', cache: false })).resolves.toMatchObject({ drifted: false });
+  });
+
+  it('reports modules that are already up to date', async () => {
+    await expect(create().update(['api'], { path: 'target', cache: false })).resolves.toEqual({
+      source,
+      modules: [],
+      files: [],
+      skipped: false,
+    });
+  });
+
+  it('sends conflicting edits through the conflict strategy', async () => {
+    await fs.writeFile(path.join(target, 'src/app.ts'), 'one (local)\ntwo\nthree\nfour\nfive\n');
+    await commitOn(source, 'api', { 'src/app.ts': 'one (upstream)\ntwo\nthree\nfour\nfive\n' }, 'Change api');
+
+    await expect(create().update([], { path: 'target', cache: false, nonInteractive: true })).rejects.toBeInstanceOf(ConflictError);
+    expect(await read('src/app.ts')).toBe('one (local)\ntwo\nthree\nfour\nfive\n');
+    expect((await readLockfile(target))!.sources[0].modules.api.refs[0].commits).toHaveLength(1);
+
+    await create().update([], { path: 'target', cache: false, conflictStrategy: 'theirs' });
+    expect(await read('src/app.ts')).toBe('one (upstream)\ntwo\nthree\nfour\nfive\n');
+  });
+
+  it('rejects modules that were not applied', async () => {
+    await expect(create().update(['web'], { path: 'target', cache: false })).rejects.toThrow('Not recorded in boilit.lock: web');
+  });
+});
@@ -0,0 +1,102 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { readLockfile } from '../lockfile';
+import { parseVersionTags, pickVersion } from '../versions';
+import { createBoilIt, createRepo, createTempDir, git } from './helpers/gitRepo';
+
+describe('parseVersionTags()', () => {
+  const lsRemote = [
+    'a1\trefs/tags/v1.0.0',
+    'b2\trefs/tags/v1.2.0',
+    'c3\trefs/tags/v1.2.0^{}',
+    'd4\trefs/tags/2.0.0',
+    'e5\trefs/tags/latest',
+    'f6\trefs/tags/v2.1.0-beta.1',
+  ].join('\n');
+
+  it('keeps version tags, highest first', () => {
+    expect(parseVersionTags(lsRemote).map((t) => t.tag)).toEqual(['v2.1.0-beta.1', '2.0.0', 'v1.2.0', 'v1.0.0']);
+  });
+
+  it('picks the highest tag in a range', () => {
+    const tags = parseVersionTags(lsRemote);
+    expect(pickVersion(tags, '^1.0')?.tag).toBe('v1.2.0');
+    expect(pickVersion(tags, '>=2')?.tag).toBe('2.0.0');
+    expect(pickVersion(tags, '^3')).toBeNull();
+  });
+});
+
+describe('semver refs', () => {
+  let dir: string;
+  let source: string;
+  let target: string;
+
+  const create = () => createBoilIt(dir);
+
+  const release = async (tag: string) => {
+    await git(source, 'checkout', '-q', 'auth');
+    await fs.outputFile(path.join(source, 'auth.md'), `${tag}\n`);
+    await git(source, 'commit', '-qam', `Release ${tag}`);
+    await git(source, 'tag', tag);
+    await git(source, 'checkout', '-q', 'main');
+  };
+
+  const setup = async (module: string) => {
+    await createRepo(source, ['name = "Source"', '[modules.auth]', module], { files: { 'auth.md': 'unreleased\n' } });
+    await git(source, 'branch', 'auth');
+    await release('v1.0.0');
+    await release('v1.1.0');
+    await release('v2.0.0');
+  };
+
+  beforeEach(async () => {
+    dir = await createTempDir('versions');
+    source = path.join(dir, 'source');
+    target = path.join(dir, 'target');
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('applies the highest matching tag and records the range', async () => {
+    await setup('version = "^1.0"');
+
+    const report = await create().use('source', ['auth'], { path: 'target', cache: false });
+
+    expect(report.modules.auth).toEqual([expect.objectContaining({ ref: 'v1.1.0', range: '^1.0' })]);
+    expect(await fs.readFile(path.join(target, 'auth.md'), 'utf-8')).toBe('v1.1.0\n');
+    const lock = await readLockfile(target);
+    expect(lock!.sources[0].modules.auth.refs).toEqual([
+      expect.objectContaining({ ref: 'v1.1.0', range: '^1.0', origin: source }),
+    ]);
+  });
+
+  it('lists the available versions when nothing matches', async () => {
+    await setup('refs = ["semver:^3"]');
+
+    await expect(create().use('source', ['auth'], { path: 'target', cache: false })).rejects.toThrow(
+      `No tag of ${source} satisfies '^3' for module 'auth'. Available versions: v2.0.0, v1.1.0, v1.0.0`
+    );
+  });
+
+  it('reports newer versions inside and outside the range', async () => {
+    await setup('refs = ["semver:~1.0"]');
+    await create().use('source', ['auth'], { path: 'target', cache: false });
+    await release('v1.0.1');
+
+    expect(await create().outdated({ path: 'target', cache: false })).toEqual({
+      refs: [
+        {
+          source,
+          module: 'auth',
+          origin: source,
+          range: '~1.0',
+          current: 'v1.0.0',
+          wanted: 'v1.0.1',
+          latest: 'v2.0.0',
+        },
+      ],
+    });
+  });
+});
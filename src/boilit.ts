@@ -1,76 +1,1775 @@
 import fs from "fs-extra";
 import path from "path";
+import { fileURLToPath } from "url";
 import toml from "@iarna/toml";
-import { BoilItConfig, BoilItConfigSchema, Module } from "./types";
+import {
+  ApplyMode,
+  ApplyReport,
+  BoilItConfig,
+  BoilItEvent,
+  BoilItOptions,
+  BoilItConfigSchema,
+  CommitStep,
+  ConfigShowOptions,
+  ConflictStrategy,
+  FileAction,
+  FileStatus,
+  GitExecutor,
+  HookStage,
+  LockedDependency,
+  LockedModule,
+  LockedRef,
+  LockedSource,
+  Lockfile,
+  Logger,
+  Module,
+  ModuleOption,
+  OnExistingPolicy,
+  OptionChoice,
+  PlannedHook,
+  ProjectSource,
+  ProjectUseOptions,
+  Prompter,
+  RemoveOptions,
+  RemoveReport,
+  DriftOptions,
+  DriftReport,
+  ExternalDependency,
+  ExternalReport,
+  ModuleUpdate,
+  OutdatedOptions,
+  OutdatedReport,
+  UpdateOptions,
+  UpdateReport,
+  Session,
+  SessionCursor,
+  SessionStatus,
+  SyncOptions,
+  SyncReport,
+  UseOptions,
+  Variable,
+} from "./types";
 import chalk from "chalk";
-import { OperationCancelledError } from "./errors";
+import { ConflictError, HookFailedError, OperationCancelledError, SessionPausedError } from "./errors";
+import { hasPlaceholders, isBinary, renderTemplate, shellQuote } from "./template";
+import { RepoCache } from "./cache";
+import {
+  LOCKFILE_NAME,
+  findLockedSource,
+  hashFile,
+  readLockfile,
+  refreshFileHashes,
+  upsertLockedSource,
+  writeLockfile,
+} from "./lockfile";
+import { readSession, removeSession, writeSession } from "./session";
+import { execaGit } from "./git";
+import { asTable, mergeConfigs, RawConfig } from "./extends";
+import { PROJECT_MANIFEST_NAME, projectUseOptions, readProjectManifest } from "./project";
+import { inquirerPrompter } from "./prompter";
+import {
+  SEMVER_REF_PREFIX,
+  TaggedVersion,
+  isValidRange,
+  parseVersionTags,
+  pickVersion,
+  semverRange,
+} from "./versions";
+
+type PlannedCopy = {
+  src: string;
+  dest: string;
+  /** Path of the file in the source repository, before rendering. */
+  repoPath: string;
+  /**
+   * The module whose `files` (or scope "changes") selected the file, or whose own variables render
+   * it; unset for the other files of `[default].files`.
+   */
+  module?: string;
+  status: FileStatus;
+  action?: FileAction;
+};
+
+/** A file to copy as collectCopies() finds it; `module` as in PlannedCopy. */
+type CollectedCopy = {
+  src: string;
+  dest: string;
+  repoPath: string;
+  module?: string;
+};
+
+/** A repository that modules depend on, planned and applied by its own instance. */
+type ExternalSource = {
+  key: string;
+  ref?: string;
+  instance: BoilIt;
+  modules: string[];
+  report?: ApplyReport;
+};
+
+/** Consecutive modules of one repository in the apply order across repositories. */
+type ApplyBatch = {
+  instance: BoilIt;
+  modules: string[];
+};
+
+/**
+ * What each side of a cherry-pick conflict holds: in `use` ours is the clone with the modules
+ * applied so far, in `update` it is the project as the user left it.
+ */
+const CONFLICT_SIDES = {
+  use: { ours: "the modules applied so far", theirs: "the commit being picked" },
+  update: { ours: "your local version", theirs: "the updated module version" },
+};
+
+type ConflictFlow = keyof typeof CONFLICT_SIDES;
+
+function localDependencies(module?: Module): string[] {
+  return (module?.dependencies || []).flatMap((dep) =>
+    typeof dep === "string" ? [dep] : dep.repo === undefined ? [dep.module] : []
+  );
+}
+
+/** The refs to apply for a module, with `version` written as a `semver:` ref. */
+function moduleRefs(module: Module): string[] {
+  return module.version !== undefined ? [`${SEMVER_REF_PREFIX}${module.version}`] : module.refs || [];
+}
+
+/** Splits a command line such as `"my editor" --wait` into words, honoring quotes. */
+function splitCommand(command: string): string[] {
+  return [...command.matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g)].map((m) => m[1] ?? m[2] ?? m[3]);
+}
+
+function choiceOf(option: ModuleOption, value: string): OptionChoice {
+  const choice = option.choices[value];
+  return Array.isArray(choice) ? { refs: choice } : choice;
+}
+
+function externalDependencies(module?: Module): ExternalDependency[] {
+  return (module?.dependencies || []).filter(
+    (dep): dep is ExternalDependency => typeof dep !== "string" && dep.repo !== undefined
+  );
+}
+
+export class BoilIt {
+  private tempDir: string;
+  private config: BoilItConfig | null = null;
+  private repoUrl: string = "";
+  private repoName: string = "";
+  private localSource: string | null = null;
+  private cache: RepoCache | null = null;
+  private lockedSource: LockedSource | null = null;
+  private appliedModules: Record<string, LockedModule> = {};
+  private dryRun = false;
+  private onExisting: OnExistingPolicy = "fail";
+  /** Whether questions can be answered at all: a terminal, or a custom prompter. */
+  private canPrompt = !!process.stdin.isTTY;
+  private interactive = this.canPrompt;
+  private conflictStrategy: ConflictStrategy | null = null;
+  private allModules = false;
+  private pathOverrides: Record<string, string> = {};
+  private mode: ApplyMode = "copy";
+  private preserveHistory = false;
+  private steps: CommitStep[] = [];
+  /** The clone's HEAD after the refs of each module with scope "changes". */
+  private moduleHeads: Record<string, string> = {};
+  private externals: ExternalSource[] = [];
+  /** The apply order across repositories; empty when no module depends on another repository. */
+  private batches: ApplyBatch[] = [];
+  /** Set on the instances of other repositories, whose dependencies the first instance plans. */
+  private external = false;
+  /** Modules whose options are chosen, so each module's choices are merged once. */
+  private optionsChosen = new Set<string>();
+  private hooksConfirmed = false;
+  /** The files written so far by applyBatch(). */
+  private copied: PlannedCopy[] = [];
+  /** Target directories applyBatch() created, relative to the target, so remove() can prune them. */
+  private createdDirs = new Set<string>();
+  /** What boilit.project.toml sets for each source URL, while sync() runs. */
+  private projectSources = new Map<string, ProjectUseOptions>();
+  /** Version tags of each origin, listed once per run. */
+  private versionTags = new Map<string, TaggedVersion[]>();
+  private variableOverrides: Record<string, string> = {};
+  /** Choices for module options, keyed `<module>.<option>`: given with --opt, then as chosen. */
+  private optionValues: Record<string, string> = {};
+  private variables: Record<string, string> = {};
+  /** Values given for single modules, over `variables`. */
+  private moduleVariables: Record<string, Record<string, string>> = {};
+  private allowHooks = false;
+  private hooks: PlannedHook[] = [];
+  private sourceRef?: string;
+  private configCommit = "";
+  private targetPath = ".";
+  private sessionOptions: Session["options"] = {};
+  private order: string[] = [];
+  private progress: SessionCursor | null = null;
+  private sessionSaved = false;
+  // resume() can only finish a `use`, so other flows resolve conflicts without pausing
+  private resumable = true;
+  private onEvent: ((event: BoilItEvent) => void) | null;
+  private listeners = new Map<string, Array<(event: BoilItEvent) => void>>();
+  private quiet: boolean;
+  private cwd?: string;
+  private logger: Logger | null;
+  private prompter: Prompter;
+  private git: GitExecutor;
+  private planned: ApplyReport | null = null;
+
+  constructor(options: BoilItOptions = {}) {
+    this.cwd = options.cwd;
+    this.tempDir = options.tempDir || path.join(options.cwd || process.cwd(), ".boilit-temp");
+    this.onEvent = options.onEvent || null;
+    this.logger = options.logger || null;
+    this.quiet = !!options.quiet || !!options.logger;
+    this.prompter = options.prompter || inquirerPrompter;
+    // A custom prompter can answer questions without a TTY
+    if (options.prompter) this.interactive = this.canPrompt = true;
+    this.git = options.git || execaGit;
+  }
+
+  public on<T extends BoilItEvent["type"]>(
+    type: T,
+    listener: (event: Extract<BoilItEvent, { type: T }>) => void
+  ): this {
+    const listeners = this.listeners.get(type) || [];
+    listeners.push(listener as (event: BoilItEvent) => void);
+    this.listeners.set(type, listeners);
+    return this;
+  }
+
+  public off<T extends BoilItEvent["type"]>(
+    type: T,
+    listener: (event: Extract<BoilItEvent, { type: T }>) => void
+  ): this {
+    const listeners = this.listeners.get(type) || [];
+    this.listeners.set(type, listeners.filter((l) => l !== listener));
+    return this;
+  }
+
+  /**
+   * Clones `repo`, applies the requested modules and writes them to the target: `loadConfig`,
+   * `plan` and `apply` in one go, with spinners.
+   */
+  public async use(
+    repo: string,
+    modules: string[] = [],
+    options: UseOptions = {}
+  ): Promise<ApplyReport> {
+    await this.assertNoSession();
+    const spinner = await this.startSpinner("Fetching repository...");
+
+    try {
+      await this.prepareSource(repo, options);
+      const plan = await this.buildPlan(modules);
+      if (this.dryRun) {
+        spinner.succeed("Dry run complete, no files were written");
+        return plan;
+      }
+
+      const report = await this.applyPlan();
+      spinner.succeed("Modules applied successfully!");
+      return report;
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      if (error instanceof OperationCancelledError) {
+        spinner.info("Operation cancelled by user");
+      } else if (error instanceof SessionPausedError) {
+        spinner.info(error.message);
+      } else {
+        spinner.fail(`Failed to apply modules: ${errorMessage}`);
+      }
+      throw error;
+    } finally {
+      // A saved session keeps the temp clone so the conflict can be resolved later
+      if (!this.sessionSaved) await this.cleanup();
+    }
+  }
+
+  /**
+   * Clones `source` (honoring `repo#ref`, --frozen and --include-dirty) and reads its
+   * boilit.toml. The clone is kept for `plan()`; call `dispose()` if you stop here.
+   */
+  public async loadConfig(source: string, options: UseOptions = {}): Promise<BoilItConfig> {
+    await this.assertNoSession();
+    return this.cleanupOnError(() => this.prepareSource(source, options));
+  }
+
+  /**
+   * Resolves dependencies, cherry-picks the module refs in the temp clone and classifies the
+   * files to copy. Nothing is written to the target.
+   */
+  public async plan(modules: string[] = []): Promise<ApplyReport> {
+    if (!this.config) {
+      throw new Error("Configuration not loaded: call loadConfig() first");
+    }
+    return this.cleanupOnError(() => this.buildPlan(modules));
+  }
+
+  /**
+   * Runs hooks, writes the files of a plan returned by `plan()` and updates boilit.lock.
+   */
+  public async apply(plan: ApplyReport): Promise<ApplyReport> {
+    if (!plan || plan !== this.planned) {
+      throw new Error("apply() expects the plan returned by the last plan() call");
+    }
+    try {
+      return await this.applyPlan();
+    } finally {
+      if (!this.sessionSaved) await this.cleanup();
+    }
+  }
+
+  /**
+   * Removes the temp clone of a source that was loaded or planned but not applied.
+   */
+  public async dispose() {
+    this.planned = null;
+    this.config = null;
+    this.externals = [];
+    this.batches = [];
+    if (!this.sessionSaved) await this.cleanup();
+  }
+
+  /**
+   * Resumes a session saved on a merge conflict, either committing the resolved cherry-pick
+   * (`continue`) or dropping that commit (`skip`), then applies the remaining queue.
+   */
+  public async resume(action: "continue" | "skip"): Promise<ApplyReport> {
+    const session = await readSession(this.tempDir);
+    if (!session) {
+      throw new Error("No BoilIt session in progress");
+    }
+
+    this.restoreSession(session);
+    const repoDir = path.join(this.tempDir, this.repoName);
+    const cursor: SessionCursor = {
+      ...session.current,
+      refs: session.current.refs.map((ref) => ({ ...ref, commits: [...ref.commits] })),
+    };
+
+    const spinner = await this.startSpinner(action === "skip" ? "Skipping commit..." : "Continuing...");
+
+    try {
+      if (action === "continue") {
+        await this.continueCherryPick(repoDir);
+        const ref = cursor.refs[cursor.refIndex];
+        if (this.preserveHistory && ref) {
+          await this.recordCommitStep(repoDir, { module: cursor.module, ref: ref.ref, sha: ref.commits[cursor.shaIndex] });
+        }
+        cursor.shaIndex += 1;
+      } else {
+        await this.skipCherryPick(repoDir);
+        cursor.refs[cursor.refIndex]?.commits.splice(cursor.shaIndex, 1);
+      }
+      await this.discardSession();
+
+      await this.pickModulesFrom(repoDir, this.order.indexOf(cursor.module), cursor);
+      const plan = await this.describePlan();
+      if (this.dryRun) {
+        spinner.succeed("Dry run complete, no files were written");
+        return plan;
+      }
+
+      const report = await this.applyPlan();
+      spinner.succeed("Modules applied successfully!");
+      return report;
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      if (error instanceof OperationCancelledError) {
+        spinner.info("Operation cancelled by user");
+      } else if (error instanceof SessionPausedError) {
+        spinner.info(error.message);
+      } else {
+        spinner.fail(`Failed to apply modules: ${errorMessage}`);
+      }
+      throw error;
+    } finally {
+      if (!this.sessionSaved) await this.cleanup();
+    }
+  }
+
+  public async abort(): Promise<Session> {
+    const session = await readSession(this.tempDir);
+    if (!session) {
+      throw new Error("No BoilIt session in progress");
+    }
+    await this.cleanup();
+    return session;
+  }
+
+  public async status(): Promise<SessionStatus | null> {
+    const session = await readSession(this.tempDir);
+    if (!session) return null;
+
+    const repoDir = path.join(this.tempDir, this.getRepoName(session.repo));
+    return { session, repoDir, conflictedFiles: await this.listConflictedFiles(repoDir) };
+  }
+
+  public async list(
+    repo: string,
+    options: { ref?: string; cache?: boolean; offline?: boolean } = {}
+  ): Promise<BoilItConfig> {
+    return this.inspectSource(repo, options, "list modules", async () => {
+      await this.readConfig();
+      return this.config as BoilItConfig;
+    });
+  }
+
+  /**
+   * Returns the boilit.toml of `repo` as written or, with `resolved`, merged with the configs it
+   * extends.
+   */
+  public async showConfig(repo: string, options: ConfigShowOptions = {}): Promise<RawConfig> {
+    return this.inspectSource(repo, options, "load the configuration", async () => {
+      if (!options.resolved) return this.readConfigFile();
+      await this.readConfig();
+      return this.config as BoilItConfig;
+    });
+  }
+
+  private async inspectSource<T>(
+    repo: string,
+    options: { ref?: string; cache?: boolean; offline?: boolean },
+    action: string,
+    step: () => Promise<T>
+  ): Promise<T> {
+    if (await readSession(this.tempDir)) {
+      throw new Error("A BoilIt session is in progress in this directory. Run 'boilit abort' or finish it first.");
+    }
+    this.cache = this.createCache(options);
+    const source = this.parseSource(repo, options.ref);
+    repo = await this.normalizeSource(source.url);
+    this.repoUrl = repo;
+    this.repoName = this.getRepoName(repo);
+    this.sourceRef = source.ref;
+
+    const spinner = await this.startSpinner("Fetching repository...");
+
+    try {
+      await this.setupTempDir();
+      const repoDir = await this.cloneRepo(repo);
+      if (source.ref) {
+        await this.checkoutRef(repoDir, source.ref);
+      }
+      const result = await step();
+      spinner.succeed("Configuration loaded");
+      return result;
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      spinner.fail(`Failed to ${action}: ${errorMessage}`);
+      throw error;
+    } finally {
+      await this.cleanup();
+    }
+  }
+
+  /**
+   * Applies the modules listed in boilit.project.toml that boilit.lock does not record yet, one
+   * source at a time, each after the sources its modules depend on. Modules of other
+   * repositories that a source pulls in get their settings from the manifest too.
+   */
+  public async sync(options: SyncOptions = {}): Promise<SyncReport> {
+    const targetPath = this.resolvePath(options.path || ".");
+    const manifest = await readProjectManifest(targetPath);
+    if (!manifest) {
+      throw new Error(`No ${PROJECT_MANIFEST_NAME} in ${targetPath}`);
+    }
+
+    const sources = manifest.sources.map((source) => ({
+      source,
+      // Local paths in the manifest are relative to the project
+      url: this.isRemoteUrl(source.url) || source.url.startsWith("file://")
+        ? source.url
+        : path.resolve(targetPath, source.url),
+    }));
+    const report: SyncReport = { sources: [] };
+    this.projectSources = new Map(sources.map(({ source, url }) => [url, projectUseOptions(source)]));
+    try {
+      for (const { source, url } of await this.orderProjectSources(sources, targetPath, options)) {
+        const locked = findLockedSource(await readLockfile(targetPath), url);
+        const missing = Object.keys(source.modules).filter((name) => !locked?.modules[name]);
+        if (missing.length === 0) {
+          report.sources.push({ source: source.url, applied: [] });
+          continue;
+        }
+
+        const applied = await this.use(url, missing, {
+          ...options,
+          ...projectUseOptions(source),
+          path: targetPath,
+          ref: source.ref,
+        });
+        report.sources.push({ source: source.url, applied: missing, report: applied });
+      }
+    } finally {
+      this.projectSources.clear();
+    }
+    return report;
+  }
+
+  /**
+   * Sorts the manifest's sources so each comes after the sources its missing modules depend on,
+   * keeping the listed order otherwise. Sources that depend on each other keep theirs too: their
+   * modules are still applied in dependency order, as other repositories of one run.
+   */
+  private async orderProjectSources<T extends { source: ProjectSource; url: string }>(
+    sources: T[],
+    targetPath: string,
+    options: SyncOptions
+  ): Promise<T[]> {
+    const lock = await readLockfile(targetPath);
+    const pending = sources.filter(({ source, url }) =>
+      Object.keys(source.modules).some((name) => !findLockedSource(lock, url)?.modules[name])
+    );
+    if (pending.length < 2) return sources;
+
+    const needs = new Map<T, T[]>();
+    for (const entry of pending) {
+      const config = (await this.showConfig(entry.url, { ...options, ref: entry.source.ref, resolved: true })) as BoilItConfig;
+      const repos = new Set<string>();
+      const seen = new Set<string>();
+      const walk = (name: string) => {
+        if (seen.has(name)) return;
+        seen.add(name);
+        localDependencies(config.modules[name]).forEach(walk);
+        externalDependencies(config.modules[name]).forEach((dep) => repos.add(dep.repo));
+      };
+      Object.keys(entry.source.modules).forEach(walk);
+
+      const urls = await Promise.all([...repos].map((repo) => this.sourceUrl(repo)));
+      needs.set(entry, pending.filter((other) => other !== entry && urls.includes(other.url)));
+    }
+
+    const ordered: T[] = [];
+    const visiting = new Set<T>();
+    const place = (entry: T) => {
+      if (ordered.includes(entry) || visiting.has(entry)) return;
+      visiting.add(entry);
+      (needs.get(entry) || []).forEach(place);
+      ordered.push(entry);
+    };
+    sources.forEach(place);
+    return ordered;
+  }
+
+  /**
+   * Deletes the files a module wrote that are still unmodified and drops it from boilit.lock.
+   * Edited files and files another applied module also provides are left in place.
+   */
+  public async remove(moduleName: string, options: RemoveOptions = {}): Promise<RemoveReport> {
+    const targetPath = this.resolvePath(options.path || ".");
+    const lock = await readLockfile(targetPath);
+    const sources = (lock?.sources || []).filter(
+      (s) => s.modules[moduleName] && (!options.source || s.url === options.source)
+    );
+    if (!lock || sources.length === 0) {
+      throw new Error(`Module '${moduleName}' is not recorded in ${path.join(targetPath, LOCKFILE_NAME)}`);
+    }
+    if (sources.length > 1) {
+      throw new Error(
+        `Module '${moduleName}' was applied from several sources: ${sources.map((s) => s.url).join(", ")}. ` +
+        "Pass --source <url> to choose one."
+      );
+    }
+
+    const source = sources[0];
+    const module = source.modules[moduleName];
+    const dependents = lock.sources.flatMap((other) =>
+      Object.entries(other.modules)
+        .filter(([, m]) =>
+          (m.dependencies || []).some((dep) =>
+            typeof dep === "string"
+              ? other === source && dep === moduleName
+              : dep.url === source.url && dep.module === moduleName
+          )
+        )
+        .map(([name]) => (other === source ? name : `${name} (${other.url})`))
+    );
+    if (dependents.length > 0) {
+      throw new Error(`Cannot remove '${moduleName}': required by ${dependents.join(", ")}. Remove those first.`);
+    }
+    if (!module.files) {
+      throw new Error(
+        `${LOCKFILE_NAME} has no file list for '${moduleName}'. Re-apply it with 'boilit use' to record one.`
+      );
+    }
+
+    const elsewhere = new Set<string>();
+    for (const other of lock.sources) {
+      for (const [name, m] of Object.entries(other.modules)) {
+        if (other === source && name === moduleName) continue;
+        Object.keys(m.files || {}).forEach((file) => elsewhere.add(file));
+      }
+    }
+
+    const report: RemoveReport = { module: moduleName, source: source.url, removed: [], modified: [], shared: [], missing: [] };
+    for (const [file, hash] of Object.entries(module.files)) {
+      const dest = path.join(targetPath, file);
+      if (elsewhere.has(file)) {
+        report.shared.push(file);
+      } else if (!(await fs.pathExists(dest))) {
+        report.missing.push(file);
+      } else if ((await hashFile(dest)) !== hash) {
+        report.modified.push(file);
+      } else {
+        await fs.remove(dest);
+        report.removed.push(file);
+        await this.removeEmptyDirs(targetPath, path.dirname(dest), new Set(module.dirs));
+      }
+    }
+
+    const { [moduleName]: _removed, ...modules } = source.modules;
+    await writeLockfile(targetPath, {
+      ...lock,
+      sources: Object.keys(modules).length > 0
+        ? lock.sources.map((s) => (s === source ? { ...s, modules } : s))
+        : lock.sources.filter((s) => s !== source),
+    });
+    return report;
+  }
+
+  /**
+   * Brings applied modules up to date with their refs. The commits added upstream since the
+   * last apply are cherry-picked on top of what was applied, and that change is three-way
+   * merged into the target, with the files as originally applied as the base.
+   */
+  public async update(moduleNames: string[] = [], options: UpdateOptions = {}): Promise<UpdateReport> {
+    await this.assertNoSession();
+    const targetPath = this.resolvePath(options.path || ".");
+    const lock = await readLockfile(targetPath);
+    if (!lock) {
+      throw new Error(`No ${LOCKFILE_NAME} in ${targetPath}. Run 'boilit use' first.`);
+    }
+    const source = this.findSourceToUpdate(lock, moduleNames, options.source);
+    if (moduleNames.length === 0) moduleNames = Object.keys(source.modules);
+
+    this.repoUrl = await this.normalizeSource(source.url);
+    this.repoName = this.getRepoName(this.repoUrl);
+    this.sourceRef = source.ref;
+    this.targetPath = targetPath;
+    this.lockedSource = source;
+    this.appliedModules = {};
+    this.progress = null;
+    this.sessionSaved = false;
+    this.resumable = false;
+    this.applyOptions(options);
+
+    const spinner = await this.startSpinner("Rebuilding the applied modules...");
+    try {
+      await this.setupTempDir();
+      const repoDir = await this.cloneRepo(this.repoUrl);
+      await this.checkoutCommit(repoDir, source.commit);
+      this.configCommit = source.commit;
+      await this.readConfig();
+      for (const [name, locked] of Object.entries(source.modules)) {
+        this.applyOptionChoices(name, locked.options || {});
+      }
+
+      this.order = this.resolveDependencies(Object.keys(source.modules)).filter((name) => source.modules[name]);
+      for (const name of this.order) {
+        this.progress = { module: name, refs: [], refIndex: 0, shaIndex: 0 };
+        await this.replayLockedRefs(repoDir, source.modules[name].refs);
+      }
+      await this.resolveVariables(this.order);
+      const baseHead = await this.getHeadCommit(repoDir);
+
+      spinner.text = "Fetching module updates...";
+      const updates: ModuleUpdate[] = [];
+      for (const name of this.order.filter((m) => moduleNames.includes(m))) {
+        for (const ref of source.modules[name].refs) {
+          const update = await this.resolveNewCommits(repoDir, name, ref);
+          if (!update) continue;
+          this.progress = { module: name, refs: [], refIndex: 0, shaIndex: 0 };
+          const picked: LockedRef[] = [];
+          await this.pickRefs(repoDir, [{ ...ref, commits: update.commits }], picked);
+          if (picked[0].commits.length > 0) updates.push({ ...update, commits: picked[0].commits });
+        }
+      }
+      this.progress = null;
+
+      const report: UpdateReport = { source: source.url, modules: updates, files: [], skipped: false };
+      if (updates.length === 0) {
+        spinner.succeed("Modules are up to date");
+        return report;
+      }
+
+      spinner.text = "Merging changes into the project...";
+      const merged = await this.mergeUpdateIntoTarget(repoDir, baseHead, updates);
+      if (!merged) {
+        spinner.info("Update skipped; the project was not modified");
+        return { ...report, skipped: true };
+      }
+      report.files = merged.files;
+
+      await writeLockfile(targetPath, await this.recordUpdate(lock, source, repoDir, updates, merged));
+      spinner.succeed(`Updated ${[...new Set(updates.map((u) => u.module))].join(", ")}`);
+      return report;
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      if (error instanceof OperationCancelledError) {
+        spinner.info("Operation cancelled by user");
+      } else {
+        spinner.fail(`Failed to update modules: ${errorMessage}`);
+      }
+      throw error;
+    } finally {
+      this.resumable = true;
+      await this.cleanup();
+    }
+  }
+
+  private findSourceToUpdate(lock: Lockfile, moduleNames: string[], url?: string): LockedSource {
+    let sources = url ? lock.sources.filter((s) => s.url === url) : lock.sources;
+    if (moduleNames.length > 0) {
+      sources = sources.filter((s) => moduleNames.some((name) => s.modules[name]));
+    }
+    if (sources.length === 0) {
+      throw new Error(
+        moduleNames.length > 0
+          ? `Not recorded in ${LOCKFILE_NAME}${url ? ` for ${url}` : ""}: ${moduleNames.join(", ")}`
+          : `No source${url ? ` ${url}` : ""} recorded in ${LOCKFILE_NAME}`
+      );
+    }
+    if (sources.length > 1) {
+      throw new Error(
+        `${LOCKFILE_NAME} records several sources: ${sources.map((s) => s.url).join(", ")}. Pass --source <url> to choose one.`
+      );
+    }
+
+    const missing = moduleNames.filter((name) => !sources[0].modules[name]);
+    if (missing.length > 0) {
+      throw new Error(`Not applied from ${sources[0].url}: ${missing.join(", ")}`);
+    }
+    return sources[0];
+  }
+
+  /**
+   * Fetches `ref` and lists the commits added since the last one that was applied.
+   */
+  private async resolveNewCommits(
+    repoDir: string,
+    module: string,
+    ref: LockedRef
+  ): Promise<ModuleUpdate | null> {
+    const from = ref.commits[ref.commits.length - 1];
+    if (!from) return null;
+
+    await this.git(["-C", repoDir, "fetch", await this.fetchUrl(ref.origin), ref.ref], { stdio: "pipe" });
+    const { stdout } = await this.git(["-C", repoDir, "rev-parse", "FETCH_HEAD^{commit}"], { stdio: "pipe" });
+    const to = (stdout || "").trim();
+    if (to === from) return null;
+
+    const { exitCode } = await this.git(
+      ["-C", repoDir, "merge-base", "--is-ancestor", from, to],
+      { stdio: "pipe", reject: false }
+    );
+    if (exitCode !== 0) {
+      throw new Error(
+        `Ref '${ref.ref}' of module '${module}' was rewritten upstream since it was applied. ` +
+        "Re-apply the module with 'boilit use' instead."
+      );
+    }
+
+    const { stdout: revs } = await this.git(
+      ["-C", repoDir, "rev-list", "--no-merges", "--reverse", `${from}..${to}`],
+      { stdio: "pipe" }
+    );
+    const commits = (revs || "").split("\n").filter(Boolean);
+    return commits.length > 0 ? { module, ref: ref.ref, from, to, commits } : null;
+  }
+
+  /**
+   * Three-way merges the files that changed between `baseHead` and the clone's HEAD into the
+   * target. The merge runs as a cherry-pick in a scratch repository (base: files as applied,
+   * ours: the project, theirs: the updated files) so conflicts get the usual menu or strategy.
+   * Returns null when the merge was skipped.
+   */
+  private async mergeUpdateIntoTarget(
+    repoDir: string,
+    baseHead: string,
+    updates: ModuleUpdate[]
+  ): Promise<{ files: UpdateReport["files"]; sources: Record<string, string> } | null> {
+    const baseDir = path.join(this.tempDir, "base");
+    await this.git(["-C", repoDir, "worktree", "add", "--detach", "--quiet", baseDir, baseHead], { stdio: "pipe" });
+
+    const { stdout } = await this.git(
+      ["-C", repoDir, "diff", "--name-only", "--no-renames", baseHead, "HEAD"],
+      { stdio: "pipe" }
+    );
+    const changed = new Set((stdout || "").split("\n").filter(Boolean));
+    const toRel = (dest: string) => path.relative(this.targetPath, dest).split(path.sep).join("/");
+
+    // Modules with scope "changes" select their files by the commits on each side
+    const locked = this.lockedSource?.modules || {};
+    const updated: Record<string, LockedModule> = {};
+    for (const [name, module] of Object.entries(locked)) {
+      const refs = module.refs.map((ref) => {
+        const update = updates.find((u) => u.module === name && u.ref === ref.ref);
+        return update ? { ...ref, commits: [...ref.commits, ...update.commits] } : ref;
+      });
+      updated[name] = { ...module, refs };
+    }
+
+    // Target path -> rendered content before and after the update
+    const entries = new Map<string, { base?: Buffer; theirs?: Buffer; repoPath?: string }>();
+    for (const [dir, side, modules] of [[baseDir, "base", locked], [repoDir, "theirs", updated]] as const) {
+      for (const copy of await this.collectCopies(dir, this.targetPath, this.order, modules)) {
+        const { repoPath } = copy;
+        if (!changed.has(repoPath)) continue;
+        const entry = entries.get(toRel(copy.dest)) || {};
+        entry[side] = await fs.readFile(await this.renderFile(dir, copy.src, copy.module));
+        if (side === "theirs") entry.repoPath = repoPath;
+        entries.set(toRel(copy.dest), entry);
+      }
+    }
+
+    const scratch = path.join(this.tempDir, "merge");
+    const run = (args: string[]) => this.git(["-C", scratch, ...args], { stdio: "pipe" });
+    const snapshot = async (message: string, contentOf: (rel: string) => Promise<Buffer | undefined>) => {
+      for (const rel of entries.keys()) {
+        const content = await contentOf(rel);
+        if (content) {
+          await fs.outputFile(path.join(scratch, rel), content);
+        } else {
+          await fs.remove(path.join(scratch, rel));
+        }
+      }
+      await run(["add", "-A"]);
+      await run(["commit", "--quiet", "--allow-empty", "-m", message]);
+      return this.getHeadCommit(scratch);
+    };
+
+    await this.git(["init", "--quiet", scratch], { stdio: "pipe" });
+    const base = await snapshot("Applied", async (rel) => entries.get(rel)?.base);
+    const theirs = await snapshot(
+      `Update ${updates.map((u) => `${u.module} (${u.ref})`).join(", ")}`,
+      async (rel) => entries.get(rel)?.theirs
+    );
+    await run(["checkout", "--quiet", "--detach", base]);
+    await snapshot("Project", async (rel) => {
+      const dest = path.join(this.targetPath, rel);
+      return (await fs.pathExists(dest)) ? fs.readFile(dest) : undefined;
+    });
+
+    this.progress = { module: [...new Set(updates.map((u) => u.module))].join(", "), refs: [], refIndex: 0, shaIndex: 0 };
+    const picked = await this.cherryPickWithConflictHandling(scratch, theirs, ["--keep-redundant-commits"], "update");
+    this.progress = null;
+    if (!picked) return null;
+
+    const files: UpdateReport["files"] = [];
+    const sources: Record<string, string> = {};
+    for (const [rel, entry] of entries) {
+      const merged = path.join(scratch, rel);
+      const dest = path.join(this.targetPath, rel);
+      if (await fs.pathExists(merged)) {
+        if (entry.repoPath) sources[rel] = entry.repoPath;
+        const existed = await fs.pathExists(dest);
+        if (existed && (await hashFile(dest)) === (await hashFile(merged))) continue;
+        await fs.ensureDir(path.dirname(dest));
+        await fs.copy(merged, dest, { overwrite: true });
+        files.push({ path: rel, status: existed ? "updated" : "added" });
+      } else if (await fs.pathExists(dest)) {
+        await fs.remove(dest);
+        files.push({ path: rel, status: "deleted" });
+      }
+    }
+    return { files, sources };
+  }
+
+  /**
+   * Appends the picked commits to the updated refs and brings the file lists in line with the
+   * files the update wrote or deleted.
+   */
+  private async recordUpdate(
+    lock: Lockfile,
+    source: LockedSource,
+    repoDir: string,
+    updates: ModuleUpdate[],
+    merged: { files: UpdateReport["files"]; sources: Record<string, string> }
+  ): Promise<Lockfile> {
+    const deleted = new Set(merged.files.filter((f) => f.status === "deleted").map((f) => f.path));
+    const hashes: Record<string, string> = {};
+    for (const rel of new Set([...Object.keys(merged.sources), ...merged.files.map((f) => f.path)])) {
+      if (!deleted.has(rel)) hashes[rel] = await hashFile(path.join(this.targetPath, rel));
+    }
+
+    const refreshed = refreshFileHashes(lock, hashes) as Lockfile;
+    const cleaned: Lockfile = {
+      ...refreshed,
+      sources: refreshed.sources.map((s) => ({
+        ...s,
+        modules: Object.fromEntries(
+          Object.entries(s.modules).map(([name, m]) => [
+            name,
+            m.files ? { ...m, files: Object.fromEntries(Object.entries(m.files).filter(([f]) => !deleted.has(f))) } : m,
+          ])
+        ),
+      })),
+    };
+
+    const current = findLockedSource(cleaned, source.url) as LockedSource;
+    const modules: Record<string, LockedModule> = {};
+    for (const name of new Set(updates.map((u) => u.module))) {
+      const own = updates.filter((u) => u.module === name);
+      const module = current.modules[name];
+      const touched = await this.listChangedPaths(repoDir, own.flatMap((u) => u.commits));
+      const files = { ...module.files };
+      for (const [rel, hash] of Object.entries(hashes)) {
+        if (touched.has(merged.sources[rel])) files[rel] = hash;
+      }
+      modules[name] = {
+        ...module,
+        refs: module.refs.map((ref) => {
+          const update = own.find((u) => u.ref === ref.ref);
+          return update ? { ...ref, commits: [...ref.commits, ...update.commits] } : ref;
+        }),
+        files,
+      };
+    }
+    return upsertLockedSource(cleaned, { ...current, modules });
+  }
+
+  /**
+   * Compares what boilit.lock recorded with the target (edited or deleted files) and with the
+   * module refs upstream (commits added since they were applied).
+   */
+  public async drift(options: DriftOptions = {}): Promise<DriftReport> {
+    await this.assertNoSession();
+    const targetPath = this.resolvePath(options.path || ".");
+    const lock = await readLockfile(targetPath);
+    if (!lock) {
+      throw new Error(`No ${LOCKFILE_NAME} in ${targetPath}. Run 'boilit use' first.`);
+    }
+
+    const report: DriftReport = { files: [], upstream: [], drifted: false };
+    for (const source of lock.sources) {
+      const files = new Map<string, string[]>();
+      for (const [name, module] of Object.entries(source.modules)) {
+        for (const [file, hash] of Object.entries(module.files || {})) {
+          const dest = path.join(targetPath, file);
+          const status = !(await fs.pathExists(dest))
+            ? "deleted"
+            : (await hashFile(dest)) !== hash ? "modified" : null;
+          if (!status) continue;
+          if (!files.has(file)) {
+            files.set(file, []);
+            report.files.push({ source: source.url, path: file, status, modules: files.get(file)! });
+          }
+          files.get(file)!.push(name);
+        }
+      }
+    }
+
+    this.cache = this.createCache(options);
+    const spinner = await this.startSpinner("Checking module refs upstream...");
+    try {
+      await this.setupTempDir();
+      const scratch = path.join(this.tempDir, "upstream");
+      await this.git(["init", "--quiet", "--bare", scratch], { stdio: "pipe" });
+
+      for (const source of lock.sources) {
+        for (const [name, module] of Object.entries(source.modules)) {
+          for (const { ref, origin, commits } of module.refs) {
+            const applied = commits[commits.length - 1];
+            if (!applied) continue;
+            const drift = await this.checkUpstreamRef(scratch, origin, ref, applied);
+            if (drift.latest !== applied) {
+              report.upstream.push({ source: source.url, module: name, ref, origin, applied, ...drift });
+            }
+          }
+        }
+      }
+      spinner.succeed("Checked module refs upstream");
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      spinner.fail(`Failed to check module refs upstream: ${errorMessage}`);
+      throw error;
+    } finally {
+      await this.cleanup();
+    }
+
+    report.drifted = report.files.length > 0 || report.upstream.length > 0;
+    return report;
+  }
+
+  /**
+   * Lists the module refs that boilit.lock records for a semver range and have a newer version
+   * tag upstream, whether or not it satisfies the range.
+   */
+  public async outdated(options: OutdatedOptions = {}): Promise<OutdatedReport> {
+    const targetPath = this.resolvePath(options.path || ".");
+    const lock = await readLockfile(targetPath);
+    if (!lock) {
+      throw new Error(`No ${LOCKFILE_NAME} in ${targetPath}. Run 'boilit use' first.`);
+    }
+
+    this.cache = this.createCache(options);
+    this.versionTags.clear();
+    const report: OutdatedReport = { refs: [] };
+    const spinner = await this.startSpinner("Listing version tags...");
+    try {
+      for (const source of lock.sources) {
+        for (const [name, module] of Object.entries(source.modules)) {
+          for (const { ref, origin, range } of module.refs) {
+            if (range === undefined) continue;
+            const tags = await this.listVersionTags(origin);
+            const latest = tags[0]?.tag ?? null;
+            if (latest === null || latest === ref) continue;
+            report.refs.push({
+              source: source.url,
+              module: name,
+              origin,
+              range,
+              current: ref,
+              wanted: pickVersion(tags, range)?.tag ?? null,
+              latest,
+            });
+          }
+        }
+      }
+      spinner.succeed("Listed version tags");
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      spinner.fail(`Failed to list version tags: ${errorMessage}`);
+      throw error;
+    }
+    return report;
+  }
+
+  private async checkUpstreamRef(
+    scratch: string,
+    origin: string,
+    ref: string,
+    applied: string
+  ): Promise<{ latest: string; behind: number | null }> {
+    try {
+      await this.git(["-C", scratch, "fetch", "--quiet", await this.fetchUrl(origin), ref], { stdio: "pipe" });
+    } catch (error: any) {
+      throw new Error(`Ref '${ref}' could not be fetched from ${origin}: ${error.message}`);
+    }
+    const { stdout } = await this.git(["-C", scratch, "rev-parse", "FETCH_HEAD^{commit}"], { stdio: "pipe" });
+    const latest = (stdout || "").trim();
+
+    const count = await this.git(
+      ["-C", scratch, "rev-list", "--count", `${applied}..${latest}`],
+      { stdio: "pipe", reject: false }
+    );
+    const ancestor = await this.git(
+      ["-C", scratch, "merge-base", "--is-ancestor", applied, latest],
+      { stdio: "pipe", reject: false }
+    );
+    return { latest, behind: ancestor.exitCode === 0 ? Number((count.stdout || "").trim()) : null };
+  }
+
+  /**
+   * Removes `dir` and its parents while they are empty and among the directories a module
+   * created (`created`, relative to the target). The target itself is never removed.
+   */
+  private async removeEmptyDirs(targetPath: string, dir: string, created: Set<string>) {
+    const root = path.resolve(targetPath);
+    for (dir = path.resolve(dir); dir.startsWith(root + path.sep); dir = path.dirname(dir)) {
+      if (!created.has(path.relative(root, dir).split(path.sep).join("/"))) return;
+      if (!(await fs.pathExists(dir)) || (await fs.readdir(dir)).length > 0) return;
+      await fs.remove(dir);
+    }
+  }
+
+  private async assertNoSession() {
+    if (await readSession(this.tempDir)) {
+      throw new Error(
+        "A BoilIt session is already in progress. Run 'boilit continue', 'boilit skip' or 'boilit abort' first."
+      );
+    }
+  }
+
+  private async cleanupOnError<T>(step: () => Promise<T>): Promise<T> {
+    try {
+      return await step();
+    } catch (error) {
+      if (!this.sessionSaved) await this.cleanup();
+      throw error;
+    }
+  }
+
+  private async prepareSource(repo: string, options: UseOptions): Promise<BoilItConfig> {
+    const source = this.parseSource(repo, options.ref);
+    repo = await this.normalizeSource(source.url);
+    this.repoUrl = repo;
+    this.repoName = this.getRepoName(repo);
+    this.sourceRef = source.ref;
+    this.targetPath = this.resolvePath(options.path || ".");
+    this.appliedModules = {};
+    this.lockedSource = null;
+    this.order = [];
+    this.progress = null;
+    this.planned = null;
+    this.sessionSaved = false;
+    this.steps = [];
+    this.moduleHeads = {};
+    this.externals = [];
+    this.batches = [];
+    this.optionsChosen.clear();
+    this.versionTags.clear();
+    this.applyOptions(options);
+    if (this.mode === "commit") {
+      await this.assertCommitTarget(this.targetPath, !!options.allowDirty);
+    }
+
+    const lock = await readLockfile(this.targetPath);
+    if (options.frozen) {
+      this.lockedSource = findLockedSource(lock, repo) || null;
+      if (!this.lockedSource) {
+        throw new Error(
+          `No entry for ${repo} in ${LOCKFILE_NAME}. Run 'boilit use' without --frozen first to create it.`
+        );
+      }
+    }
+
+    await this.setupTempDir();
+    const repoDir = await this.cloneRepo(repo);
+    if (this.lockedSource) {
+      await this.checkoutCommit(repoDir, this.lockedSource.commit);
+    } else if (source.ref) {
+      await this.checkoutRef(repoDir, source.ref);
+    }
+    this.configCommit = await this.getHeadCommit(repoDir);
+    if (options.includeDirty) {
+      await this.includeWorkingTreeChanges(repoDir);
+    }
+    if (this.mode === "commit") {
+      await this.recordCommitStep(repoDir);
+    }
+    await this.readConfig();
+    return this.config as BoilItConfig;
+  }
+
+  private async buildPlan(modules: string[]): Promise<ApplyReport> {
+    if (modules.length > 0 && this.allModules) {
+      throw new Error("--all cannot be combined with module names");
+    }
+    if (modules.length === 0) {
+      if (this.lockedSource) {
+        modules = Object.keys(this.lockedSource.modules);
+      } else if (this.allModules) {
+        modules = Object.keys(this.config?.modules || {});
+      } else if (this.interactive) {
+        modules = await this.selectModules();
+      } else {
+        throw new Error("No modules given. Name the modules to apply, or pass --all to apply every module.");
+      }
+    }
+
+    await this.resolveModules(modules);
+    return this.describePlan();
+  }
+
+  private async resolveModules(moduleNames: string[]) {
+    if (!this.config) {
+      throw new Error("Configuration not loaded");
+    }
+
+    this.validateRequestedModules(moduleNames);
+    await this.chooseOptions(moduleNames);
+    let modulesToApply = this.resolveDependencies(moduleNames);
+    if (!this.external) {
+      modulesToApply = await this.planExternalSources(modulesToApply);
+    }
+    this.emit({ type: "order-resolved", modules: modulesToApply });
+    const repoDir = path.join(this.tempDir, this.repoName);
+
+    if (this.lockedSource) {
+      this.validateLockedModules(modulesToApply);
+    } else {
+      await this.validateModuleRefs(modulesToApply, repoDir);
+    }
+
+    this.order = modulesToApply;
+    // The other repositories' clones are not part of a saved session
+    this.resumable = this.externals.length === 0;
+    await this.pickModulesFrom(repoDir, 0);
+  }
+
+  /**
+   * Clones the other repositories the modules depend on, recursively, each in its own instance
+   * with its own boilit.toml, and orders the modules of all repositories so each one comes after
+   * its dependencies. Only a cycle between modules is an error, so a module may depend on one of
+   * another repository that depends back on this one. Returns the modules of this repository.
+   */
+  private async planExternalSources(moduleNames: string[]): Promise<string[]> {
+    const mainKey = this.sourceKey(this.repoUrl, this.sourceRef);
+    const sources = new Map<string, ExternalSource>();
+    const stack: string[] = [];
+    const done = new Set<string>();
+    const order: Array<{ instance: BoilIt; module: string }> = [];
+    const recorded = await readLockfile(this.targetPath);
+    const lock = this.projectSources.size > 0 ? recorded : null;
+    // boilit.lock keeps one entry per repository, so each one is applied at a single ref
+    const refs = new Map<string, string | undefined>([[this.repoUrl, this.sourceRef]]);
+    const describeRef = (ref?: string) => (ref ? `ref '${ref}'` : "its default branch");
+
+    const visit = async (owner: BoilIt, ownerKey: string, moduleName: string) => {
+      const node = `${ownerKey}:${moduleName}`;
+      if (done.has(node)) return;
+      if (stack.includes(node)) {
+        throw new Error(
+          `Circular dependency detected across repositories: ${[...stack.slice(stack.indexOf(node)), node].join(" → ")}. ` +
+          "Dependencies must form a directed acyclic graph."
+        );
+      }
+      stack.push(node);
+      // Choices can add dependencies, so they are made before the dependencies are read
+      await owner.chooseOptions([moduleName]);
+      const module = owner.config?.modules[moduleName];
+      for (const dep of localDependencies(module)) {
+        await visit(owner, ownerKey, dep);
+      }
+      for (const dep of externalDependencies(module)) {
+        const url = await this.sourceUrl(dep.repo);
+        // sync() applies the manifest's sources in turn; what an earlier one applied stays as it is
+        if (findLockedSource(lock, url)?.modules[dep.module]) continue;
+        const locked = findLockedSource(recorded, url);
+        if (refs.has(url) || locked) {
+          const ref = refs.has(url) ? refs.get(url) : locked?.ref;
+          if (ref !== dep.ref) {
+            throw new Error(
+              `Module '${moduleName}' depends on ${url} at ${describeRef(dep.ref)}, but it is ` +
+              `${refs.has(url) ? "also used" : `recorded in ${LOCKFILE_NAME}`} at ${describeRef(ref)}. ` +
+              "A repository can only be applied at one ref."
+            );
+          }
+        }
+        refs.set(url, dep.ref);
+        const source = await this.loadExternalSource(sources, dep);
+        if (!source.instance.config?.modules[dep.module]) {
+          throw new Error(`Module '${moduleName}' depends on '${dep.module}', which ${source.key} does not define`);
+        }
+        await visit(source.instance, source.key, dep.module);
+      }
+      stack.pop();
+      done.add(node);
+      order.push({ instance: owner, module: moduleName });
+    };
+
+    for (const name of moduleNames) {
+      await visit(this, mainKey, name);
+    }
+
+    this.batches = [];
+    for (const { instance, module } of order) {
+      const last = this.batches[this.batches.length - 1];
+      if (last?.instance === instance) last.modules.push(module);
+      else this.batches.push({ instance, modules: [module] });
+    }
+
+    const modulesOf = (instance: BoilIt) => order.filter((node) => node.instance === instance).map((node) => node.module);
+    this.externals = [...sources.values()].sort(
+      (a, b) => order.findIndex((node) => node.instance === a.instance) - order.findIndex((node) => node.instance === b.instance)
+    );
+    for (const source of this.externals) {
+      source.modules = modulesOf(source.instance);
+      source.report = await source.instance.buildPlan(source.modules);
+    }
+    return modulesOf(this);
+  }
+
+  /** The instance of the repository `dep` names: this one, a loaded one, or a new clone. */
+  private async loadExternalSource(sources: Map<string, ExternalSource>, dep: ExternalDependency): Promise<ExternalSource> {
+    const url = await this.sourceUrl(dep.repo);
+    const key = this.sourceKey(url, dep.ref);
+    const known = sources.get(key);
+    if (known) return known;
+    if (key === this.sourceKey(this.repoUrl, this.sourceRef)) {
+      return { key, instance: this, modules: [] };
+    }
+
+    const instance = new BoilIt({
+      cwd: this.cwd,
+      tempDir: path.join(this.tempDir, "external", String(sources.size)),
+      git: this.git,
+      prompter: this.prompter,
+      quiet: this.quiet,
+      ...(this.logger ? { logger: this.logger } : {}),
+      ...(this.onEvent ? { onEvent: this.onEvent } : {}),
+    });
+    instance.canPrompt = this.canPrompt;
+    instance.listeners = this.listeners;
+    instance.resumable = false;
+    instance.external = true;
+    await instance.prepareSource(dep.repo, {
+      ...this.sessionOptions,
+      paths: undefined,
+      opts: undefined,
+      moduleVars: undefined,
+      ...this.projectSources.get(url),
+      path: this.targetPath,
+      ref: dep.ref,
+      frozen: !!this.lockedSource,
+    });
+    const source: ExternalSource = { key, ref: dep.ref, instance, modules: [] };
+    sources.set(key, source);
+    return source;
+  }
+
+  private sourceKey(url: string, ref?: string): string {
+    return ref ? `${url}#${ref}` : url;
+  }
+
+  /**
+   * Applies the refs of `this.order` starting at module `start`, optionally resuming that
+   * module's refs from a saved cursor.
+   */
+  private async pickModulesFrom(repoDir: string, start: number, resume?: SessionCursor) {
+    for (let i = start; i < this.order.length; i++) {
+      const moduleKey = this.order[i];
+      const module = this.config?.modules[moduleKey];
+      if (!module) {
+        throw new Error(`Module '${moduleKey}' not found in configuration`);
+      }
+      await this.applyModuleRefs(moduleKey, module, repoDir, i === start ? resume : undefined);
+    }
+    this.progress = null;
+  }
+
+  /**
+   * Resolves variables and hooks and classifies the files of the applied modules against the
+   * target, without writing anything.
+   */
+  private async describePlan(): Promise<ApplyReport> {
+    const repoDir = path.join(this.tempDir, this.repoName);
+    await this.resolveVariables(this.order);
+    this.hooks = this.collectHooks(this.order);
+
+    const files = await this.copyToTarget(repoDir, this.targetPath, this.order, false);
+    this.planned = await this.buildReport(repoDir, files, true);
+    return this.planned;
+  }
+
+  private async applyPlan(): Promise<ApplyReport> {
+    const batches: ApplyBatch[] = this.batches.length > 0 ? this.batches : [{ instance: this, modules: this.order }];
+    for (const [i, { instance, modules }] of batches.entries()) {
+      const first = !batches.slice(0, i).some((batch) => batch.instance === instance);
+      const last = !batches.slice(i + 1).some((batch) => batch.instance === instance);
+      await instance.applyBatch(modules, first, last);
+    }
+
+    for (const source of this.externals) {
+      source.report = await source.instance.finishApply();
+    }
+    return this.finishApply();
+  }
+
+  /**
+   * Writes the planned `modules` to the target with their hooks. The modules of a repository that
+   * others depend on in between are applied in several batches: `first` and `last` mark its first
+   * and last, which bring the `[default]` files and hooks and write boilit.lock.
+   */
+  private async applyBatch(modules: string[], first: boolean, last: boolean) {
+    const repoDir = path.join(this.tempDir, this.repoName);
+    const targetPath = this.targetPath;
+    const inBatch = (owner?: string) => (owner ? modules.includes(owner) : first);
+
+    if (first) {
+      this.copied = [];
+      this.createdDirs.clear();
+      this.hooksConfirmed = await this.confirmHooks();
+    }
+    const hooks = this.hooks.filter((hook) =>
+      hook.module === "[default]" ? (hook.stage === "preApply" ? first : last) : modules.includes(hook.module)
+    );
+
+    if (this.hooksConfirmed) await this.runHooks("preApply", targetPath, hooks);
+    const files =
+      this.mode === "commit"
+        ? await this.commitSteps(repoDir, targetPath, inBatch)
+        : await this.copyToTarget(repoDir, targetPath, this.order, true, inBatch);
+    this.copied.push(...files);
+    try {
+      if (this.hooksConfirmed) {
+        const dirty = this.mode === "commit" ? await this.listUncommittedFiles(targetPath) : null;
+        await this.runHooks("postApply", targetPath, hooks);
+        if (dirty) {
+          // Files that were already dirty (--allow-dirty) stay out, as with the module commits
+          const changed = [...(await this.listUncommittedFiles(targetPath))].filter((file) => !dirty.has(file));
+          await this.commitToTarget(targetPath, changed, "Run postApply hooks");
+        }
+      }
+    } finally {
+      // The modules are in the target by now, so a failing hook must not lose their record
+      if (last) await this.lockAppliedModules(repoDir, targetPath, this.copied);
+    }
+  }
+
+  private async finishApply(): Promise<ApplyReport> {
+    this.planned = null;
+    return this.buildReport(path.join(this.tempDir, this.repoName), this.copied, false);
+  }
+
+  private async lockAppliedModules(repoDir: string, targetPath: string, files: PlannedCopy[]) {
+    const hashes = await this.recordModuleFiles(repoDir, targetPath, files);
+
+    const lock = await readLockfile(targetPath);
+    await writeLockfile(
+      targetPath,
+      upsertLockedSource(refreshFileHashes(lock, hashes), {
+        url: this.repoUrl,
+        ...(this.sourceRef ? { ref: this.sourceRef } : {}),
+        commit: this.configCommit,
+        ...(Object.keys(this.variables).length > 0 ? { variables: this.variables } : {}),
+        modules: this.appliedModules,
+      })
+    );
+    if (this.mode === "commit") {
+      await this.commitToTarget(targetPath, [path.join(targetPath, LOCKFILE_NAME)], `Update ${LOCKFILE_NAME}`);
+    }
+  }
+
+  /**
+   * Stores in each applied module the target files it provided, with the hash of their content
+   * after the apply: the written files its `files` (or scope "changes") selected, and the written
+   * files whose source path one of its commits touched.
+   */
+  private async recordModuleFiles(
+    repoDir: string,
+    targetPath: string,
+    files: PlannedCopy[]
+  ): Promise<Record<string, string>> {
+    const hashes: Record<string, string> = {};
+    const written: Array<{ repoPath: string; rel: string; module?: string }> = [];
+    for (const file of files) {
+      if (file.action === "skip" || !(await fs.pathExists(file.dest))) continue;
+      const rel = path.relative(targetPath, file.dest).split(path.sep).join("/");
+      hashes[rel] = await hashFile(file.dest);
+      written.push({ repoPath: file.repoPath, rel, module: file.module });
+    }
+
+    for (const [name, module] of Object.entries(this.appliedModules)) {
+      const touched = await this.listChangedPaths(repoDir, module.refs.flatMap((ref) => ref.commits));
+      const manifest: Record<string, string> = {};
+      for (const { repoPath, rel, module: owner } of written) {
+        if (owner === name || touched.has(repoPath)) manifest[rel] = hashes[rel];
+      }
+      const dirs = [...this.createdDirs].filter((dir) => Object.keys(manifest).some((rel) => rel.startsWith(`${dir}/`)));
+      this.appliedModules[name] = { ...module, files: manifest, ...(dirs.length > 0 ? { dirs: dirs.sort() } : {}) };
+    }
+    return hashes;
+  }
 
-export class BoilIt {
-  private tempDir = path.join(process.cwd(), ".boilit-temp");
-  private config: BoilItConfig | null = null;
-  private repoUrl: string = "";
-  private repoName: string = "";
+  private async listChangedPaths(repoDir: string, shas: string[]): Promise<Set<string>> {
+    if (shas.length === 0) return new Set();
+    const { stdout } = await this.git(
+      ["-C", repoDir, "show", "--no-renames", "--name-only", "--format=", ...shas],
+      { stdio: "pipe" }
+    );
+    return new Set((stdout || "").split("\n").map((line) => line.trim()).filter(Boolean));
+  }
 
-  public async use(
-    repo: string,
-    modules: string[] = [],
-    options: { path?: string; ref?: string } = {}
-  ) {
-    const targetPath = options.path || ".";
-    this.repoUrl = repo;
-    this.repoName = this.getRepoName(repo);
+  private async buildReport(
+    repoDir: string,
+    files: Array<{ dest: string; status: FileStatus; action?: FileAction }>,
+    dryRun: boolean
+  ): Promise<ApplyReport> {
+    return {
+      dryRun,
+      order: Object.keys(this.appliedModules),
+      modules: await this.describeAppliedModules(repoDir),
+      files: files.map(({ dest, status, action }) => ({
+        path: path.relative(this.targetPath, dest).split(path.sep).join("/"),
+        status,
+        ...(action ? { action } : {}),
+      })),
+      hooks: this.hooks,
+      ...(this.externals.length > 0
+        ? {
+          externals: this.externals.map((source): ExternalReport => ({
+            source: source.instance.repoUrl,
+            ...(source.ref ? { ref: source.ref } : {}),
+            ...(source.report as ApplyReport),
+          })),
+        }
+        : {}),
+    };
+  }
+
+  private resolvePath(target: string): string {
+    return this.cwd ? path.resolve(this.cwd, target) : target;
+  }
+
+  private emit(event: BoilItEvent) {
+    this.onEvent?.(event);
+    for (const listener of this.listeners.get(event.type) || []) {
+      listener(event);
+    }
+  }
+
+  private log(...args: unknown[]) {
+    if (this.logger) {
+      this.logger.log(args.map(String).join(" "));
+    } else if (this.quiet) {
+      console.error(...args);
+    } else {
+      console.log(...args);
+    }
+  }
 
+  private async startSpinner(text: string) {
     const { default: ora } = await import("ora");
-    const spinner = ora("Fetching repository...").start();
+    return ora({ text, isSilent: this.quiet }).start();
+  }
 
-    try {
-      await this.setupTempDir();
-      await this.cloneRepo(repo);
-      await this.loadConfig();
+  private applyOptions(options: UseOptions) {
+    this.dryRun = !!options.dryRun;
+    this.onExisting = options.onExisting || "fail";
+    this.variableOverrides = options.vars || {};
+    this.variables = {};
+    this.moduleVariables = { ...options.moduleVars };
+    this.optionValues = { ...options.opts };
+    this.allowHooks = !!options.allowHooks;
+    this.hooks = [];
+    this.cache = this.createCache(options);
+    this.interactive = this.canPrompt && !options.nonInteractive;
+    this.conflictStrategy = options.conflictStrategy || null;
+    this.allModules = !!options.all;
+    this.pathOverrides = options.paths || {};
+    this.mode = options.mode || "copy";
+    this.preserveHistory = !!options.preserveHistory;
+    if (this.preserveHistory && this.mode !== "commit") {
+      throw new Error("--preserve-history requires --mode=commit");
+    }
+    if (this.onExisting === "prompt" && !this.interactive) {
+      throw new Error("--on-existing=prompt needs an interactive terminal; use overwrite, skip, backup or fail instead");
+    }
+    this.sessionOptions = {
+      dryRun: options.dryRun,
+      onExisting: options.onExisting,
+      vars: options.vars,
+      allowHooks: options.allowHooks,
+      cache: options.cache,
+      offline: options.offline,
+      nonInteractive: options.nonInteractive,
+      conflictStrategy: options.conflictStrategy,
+      mode: options.mode,
+      preserveHistory: options.preserveHistory,
+      allowDirty: options.allowDirty,
+      paths: options.paths,
+      opts: options.opts,
+      moduleVars: options.moduleVars,
+    };
+  }
 
-      if (modules.length === 0) {
-        modules = Object.keys(this.config?.modules || {});
+  private modulePath(name: string): string | undefined {
+    return this.pathOverrides[name] ?? this.config?.modules[name]?.path;
+  }
+
+  private restoreSession(session: Session) {
+    this.repoUrl = session.repo;
+    this.repoName = this.getRepoName(session.repo);
+    this.localSource = session.localSource;
+    this.sourceRef = session.ref;
+    this.targetPath = session.targetPath;
+    this.configCommit = session.configCommit;
+    this.config = session.config;
+    this.lockedSource = session.lockedSource;
+    this.order = session.order;
+    this.appliedModules = session.applied;
+    this.steps = session.steps || [];
+    this.moduleHeads = session.heads || {};
+    this.progress = null;
+    this.sessionSaved = true;
+    this.applyOptions(session.options);
+  }
+
+  /**
+   * Persists everything needed to pick up after a conflict in another process: the modules
+   * already applied, the current module/ref/SHA and the remaining queue.
+   */
+  private async saveSession() {
+    if (!this.resumable || !this.progress || !this.config) return;
+
+    await writeSession(this.tempDir, {
+      version: 1,
+      repo: this.repoUrl,
+      ...(this.sourceRef ? { ref: this.sourceRef } : {}),
+      localSource: this.localSource,
+      targetPath: path.resolve(this.targetPath),
+      options: this.sessionOptions,
+      configCommit: this.configCommit,
+      config: this.config,
+      lockedSource: this.lockedSource,
+      order: this.order,
+      applied: this.appliedModules,
+      current: this.progress,
+      ...(this.mode === "commit" ? { steps: this.steps } : {}),
+      ...(Object.keys(this.moduleHeads).length > 0 ? { heads: this.moduleHeads } : {}),
+    });
+    this.sessionSaved = true;
+  }
+
+  private async discardSession() {
+    if (!this.sessionSaved) return;
+    await removeSession(this.tempDir);
+    this.sessionSaved = false;
+  }
+
+  private collectHooks(moduleNames: string[]): PlannedHook[] {
+    const hooks: PlannedHook[] = [];
+    // Variable values are user input, so each one becomes a single quoted word of the command
+    const quoted = (module: string) =>
+      Object.fromEntries(
+        Object.entries(this.variablesFor(module)).map(([name, value]) => [name, shellQuote(value)])
+      );
+    const owners: Array<[string, Module["hooks"]]> = [
+      ["[default]", this.config?.default?.hooks],
+      ...moduleNames.map((name): [string, Module["hooks"]] => [name, this.config?.modules[name]?.hooks]),
+    ];
+
+    for (const stage of ["preApply", "postApply"] as HookStage[]) {
+      for (const [module, moduleHooks] of owners) {
+        for (const command of moduleHooks?.[stage] || []) {
+          hooks.push({ module, stage, command: renderTemplate(command, quoted(module)) });
+        }
       }
+    }
+    return hooks;
+  }
 
-      await this.resolveAndApplyModules(modules, targetPath);
-      spinner.succeed("Modules applied successfully!");
-    } catch (error: unknown) {
-      const errorMessage =
-        error instanceof Error ? error.message : "Unknown error";
-      if (error instanceof OperationCancelledError) {
-        spinner.info("Operation cancelled by user");
-      } else {
-        spinner.fail(`Failed to apply modules: ${errorMessage}`);
+  /**
+   * Hook commands come from the source repository, so they only run with --allow-hooks or after
+   * the user confirms the exact list of commands.
+   */
+  private async confirmHooks(): Promise<boolean> {
+    if (this.hooks.length === 0) return false;
+    if (this.allowHooks) return true;
+
+    this.log(chalk.yellow("\nThe applied modules declare hooks that will run in the target directory:"));
+    for (const hook of this.hooks) {
+      this.log(`  ${chalk.gray(`[${hook.module}] ${hook.stage}:`)} ${hook.command}`);
+    }
+
+    if (!this.interactive) {
+      this.log(chalk.yellow("Hooks skipped. Re-run with --allow-hooks to execute them."));
+      return false;
+    }
+
+    const confirmed = await this.prompter.prompt<boolean>(
+      { type: "confirm", name: "confirmed", message: "Run these commands?", default: false }
+    );
+    if (!confirmed) {
+      this.log(chalk.yellow("Hooks skipped."));
+    }
+    return confirmed;
+  }
+
+  private async runHooks(stage: HookStage, targetPath: string, hooks = this.hooks) {
+    const execa = (await import("execa")).default;
+    await fs.ensureDir(targetPath);
+
+    for (const hook of hooks.filter((h) => h.stage === stage)) {
+      this.log(chalk.cyan(`\n▶ [${hook.module}] ${stage}: ${hook.command}`));
+      try {
+        await execa(hook.command, {
+          shell: true,
+          cwd: targetPath,
+          // Hook output must not end up in machine-readable stdout
+          stdio: this.quiet ? ["inherit", 2, 2] : "inherit",
+        });
+      } catch (error: any) {
+        throw new HookFailedError(hook.module, hook.command, error.exitCode);
       }
-      throw error;
-    } finally {
-      await this.cleanup();
     }
   }
 
-  private async resolveAndApplyModules(
-    moduleNames: string[],
-    targetPath: string
-  ) {
-    if (!this.config) {
-      throw new Error("Configuration not loaded");
+  private async resolveVariables(moduleNames: string[]) {
+    const definitions: Record<string, Variable> = { ...this.config?.default?.variables };
+    for (const name of moduleNames) {
+      Object.assign(definitions, this.config?.modules[name]?.variables);
     }
 
-    this.validateRequestedModules(moduleNames);
-    const modulesToApply = this.resolveDependencies(moduleNames);
-    const repoDir = path.join(this.tempDir, this.repoName);
+    for (const [name, locked] of Object.entries(this.lockedSource?.modules || {})) {
+      if (locked.variables) this.moduleVariables[name] = { ...locked.variables, ...this.moduleVariables[name] };
+    }
 
-    await this.validateModuleRefs(modulesToApply, repoDir);
+    const values: Record<string, string> = { ...this.variableOverrides };
+    for (const [name, variable] of Object.entries(definitions)) {
+      let value = this.variableOverrides[name] ?? this.lockedSource?.variables?.[name];
+      const perModule = moduleNames.flatMap((module) => this.moduleVariables[module]?.[name] ?? []);
+      for (const moduleValue of perModule) {
+        const problem = this.checkVariable(name, variable, moduleValue);
+        if (problem) throw new Error(problem);
+      }
+      // Modules that were given their own value need no shared one
+      if (value === undefined && variable.default === undefined && perModule.length > 0) continue;
+
+      if (value === undefined && this.interactive) {
+        value = await this.prompter.prompt<string>({
+          type: "input",
+          name: "value",
+          message: variable.prompt || `Value for ${name}`,
+          default: variable.default,
+          validate: (input: string) =>
+            this.checkVariable(name, variable, input) || true,
+        });
+      }
 
-    for (const moduleKey of modulesToApply) {
-      const module = this.config.modules[moduleKey];
-      if (!module) {
-        throw new Error(`Module '${moduleKey}' not found in configuration`);
+      value = value ?? variable.default;
+      if (value === undefined) {
+        throw new Error(`No value for variable '${name}'. Pass it with --var ${name}=<value>.`);
+      }
+
+      const problem = this.checkVariable(name, variable, value);
+      if (problem) throw new Error(problem);
+      values[name] = value;
+    }
+
+    this.variables = values;
+  }
+
+  /** The variable values for the files and hooks of `module`, or of `[default]` without one. */
+  private variablesFor(module?: string): Record<string, string> {
+    return module && this.moduleVariables[module] ? { ...this.variables, ...this.moduleVariables[module] } : this.variables;
+  }
+
+  private checkVariable(name: string, variable: Variable, value: string): string | null {
+    if (variable.pattern && !new RegExp(`^(?:${variable.pattern})$`).test(value)) {
+      return `Invalid value '${value}' for variable '${name}': must match /${variable.pattern}/`;
+    }
+    return null;
+  }
+
+  private async describeAppliedModules(repoDir: string): Promise<ApplyReport["modules"]> {
+    const described: ApplyReport["modules"] = {};
+
+    for (const [name, applied] of Object.entries(this.appliedModules)) {
+      described[name] = [];
+      for (const { ref, origin, range, commits } of applied.refs) {
+        const subjects = new Map<string, string>();
+        if (commits.length > 0) {
+          try {
+            const { stdout } = await this.git(
+              ["-C", repoDir, "show", "-s", "--format=%H%x09%s", ...commits],
+              { stdio: "pipe" }
+            );
+            for (const line of (stdout || "").split("\n").filter(Boolean)) {
+              const [sha, ...subject] = line.split("\t");
+              subjects.set(sha, subject.join("\t"));
+            }
+          } catch {}
+        }
+        described[name].push({
+          ref,
+          origin,
+          ...(range !== undefined ? { range } : {}),
+          commits: commits.map((sha) => ({ sha, subject: subjects.get(sha) || "" })),
+        });
       }
-      await this.applyModuleRefs(moduleKey, module, repoDir);
     }
 
-    await this.copyToTarget(repoDir, targetPath, modulesToApply);
+    return described;
   }
 
   private validateRequestedModules(requestedModules: string[]) {
@@ -97,16 +1796,25 @@ export class BoilIt {
     }
   }
 
+  private validateLockedModules(moduleNames: string[]) {
+    if (!this.lockedSource) return;
+
+    const missing = moduleNames.filter((name) => !this.lockedSource?.modules[name]);
+    if (missing.length > 0) {
+      throw new Error(
+        `Module${missing.length > 1 ? "s" : ""} not found in ${LOCKFILE_NAME}: ${missing.join(", ")}. ` +
+        "Run 'boilit use' without --frozen to lock them."
+      );
+    }
+  }
+
   private async validateModuleRefs(moduleNames: string[], repoDir: string) {
     if (!this.config) return;
 
-    const execa = (await import("execa")).default;
-    const { default: ora } = await import("ora");
-    
-    const spinner = ora("Validating module references...").start();
+    const spinner = await this.startSpinner("Validating module references...");
     
     try {
-      await execa("git", ["-C", repoDir, "fetch", "--all"], { stdio: "pipe" });
+      await this.git(["-C", repoDir, "fetch", "--all"], { stdio: "pipe" });
     } catch (error: any) {
       spinner.fail("Failed to fetch repository references");
       throw new Error(`Failed to fetch repository references: ${error.message}`);
@@ -114,16 +1822,33 @@ export class BoilIt {
 
     const invalidRefs: Array<{ module: string; ref: string }> = [];
 
+    const resolved: Array<{ module: string; range: string; ref: string }> = [];
+
     for (const moduleName of moduleNames) {
       const module = this.config.modules[moduleName];
-      if (!module?.refs) continue;
+      if (!module) continue;
+
+      const originUrl = this.getOriginUrl(module);
 
-      const originUrl = module.origin || this.config.default?.origin || this.repoUrl;
+      for (const spec of moduleRefs(module)) {
+        let ref: string;
+        try {
+          ({ ref } = await this.resolveVersionRef(moduleName, spec, originUrl));
+        } catch (error) {
+          spinner.fail("No matching version found");
+          throw error;
+        }
+        const range = semverRange(spec);
+        if (range !== null) {
+          resolved.push({ module: moduleName, range, ref });
+          this.emit({ type: "ref-resolved", module: moduleName, range, ref });
+        }
 
-      for (const ref of module.refs) {
         const isValidRef = await this.checkRefExists(repoDir, ref, originUrl);
         if (!isValidRef) {
           invalidRefs.push({ module: moduleName, ref });
+        } else {
+          this.emit({ type: "ref-validated", module: moduleName, ref });
         }
       }
     }
@@ -138,18 +1863,57 @@ export class BoilIt {
     }
 
     spinner.succeed("All module references validated");
+    for (const { module, range, ref } of resolved) {
+      this.log(chalk.gray(`  ${module}: ${range} → ${ref}`));
+    }
+  }
+
+  /**
+   * Turns a `semver:<range>` ref into the highest tag of the origin that satisfies the range.
+   * Other refs are returned as they are.
+   */
+  private async resolveVersionRef(
+    moduleName: string,
+    spec: string,
+    originUrl: string
+  ): Promise<{ ref: string; range?: string }> {
+    const range = semverRange(spec);
+    if (range === null) return { ref: spec };
+
+    const tags = await this.listVersionTags(originUrl);
+    const picked = pickVersion(tags, range);
+    if (!picked) {
+      throw new Error(
+        `No tag of ${originUrl} satisfies '${range}' for module '${moduleName}'. ` +
+        `Available versions: ${tags.map((tag) => tag.tag).join(", ") || "none"}`
+      );
+    }
+    return { ref: picked.tag, range };
+  }
+
+  private async listVersionTags(originUrl: string): Promise<TaggedVersion[]> {
+    let tags = this.versionTags.get(originUrl);
+    if (!tags) {
+      try {
+        const { stdout } = await this.git(["ls-remote", "--tags", await this.fetchUrl(originUrl)], { stdio: "pipe" });
+        tags = parseVersionTags(stdout || "");
+      } catch (error: any) {
+        throw new Error(`Failed to list the tags of ${originUrl}: ${error.message}`);
+      }
+      this.versionTags.set(originUrl, tags);
+    }
+    return tags;
   }
 
   private async checkRefExists(repoDir: string, ref: string, originUrl?: string): Promise<boolean> {
-    const execa = (await import("execa")).default;
-    const url = originUrl || this.config?.default?.origin || this.repoUrl;
+    const url = originUrl || this.getOriginUrl();
     try {
-      // Fast check using ls-remote against the provided URL
-      await execa("git", ["ls-remote", "--exit-code", url, ref], { stdio: "pipe" });
+      // Fast check using ls-remote against the provided URL (or its cached mirror)
+      await this.git(["ls-remote", "--exit-code", await this.fetchUrl(url), ref], { stdio: "pipe" });
       return true;
     } catch {
       try {
-        await execa("git", ["-C", repoDir, "rev-parse", "--verify", ref], { stdio: "pipe" });
+        await this.git(["-C", repoDir, "rev-parse", "--verify", ref], { stdio: "pipe" });
         return true;
       } catch {
         return false;
@@ -157,6 +1921,174 @@ export class BoilIt {
     }
   }
 
+  /**
+   * Asks which modules to apply. Dependencies of the selection are listed as auto-included (and
+   * locked when the selection is changed), and the apply order is confirmed before continuing.
+   */
+  private async selectModules(): Promise<string[]> {
+    const modules = this.config?.modules || {};
+    let selected: string[] = [];
+    let requiredBy = new Map<string, string>();
+    // A checkbox list cannot change while it is open, so every module names what it pulls in
+    const labels = Object.entries(modules).map(([name, module]) => {
+      const requires = this.resolveDependencies([name]).filter((dep) => dep !== name);
+      return [
+        name,
+        module.description ? chalk.gray(`- ${module.description}`) : "",
+        requires.length > 0 ? chalk.gray(`(requires ${requires.join(", ")})`) : "",
+      ].filter(Boolean).join(" ");
+    });
+
+    while (true) {
+      selected = await this.prompter.prompt<string[]>({
+        type: "checkbox",
+        name: "modules",
+        message: "Select the modules to apply",
+        choices: Object.keys(modules).map((name, i) => ({
+          name: labels[i],
+          value: name,
+          ...(requiredBy.has(name)
+            ? { checked: true, disabled: `auto-included, required by ${requiredBy.get(name)}` }
+            : { checked: selected.includes(name) }),
+        })),
+      });
+      if (selected.length === 0) {
+        this.log(chalk.yellow("Select at least one module."));
+        continue;
+      }
+
+      const order = this.resolveDependencies(selected);
+      requiredBy = new Map();
+      for (const name of order) {
+        for (const dep of localDependencies(modules[name])) {
+          if (!selected.includes(dep) && !requiredBy.has(dep)) requiredBy.set(dep, name);
+        }
+      }
+
+      this.log(chalk.cyan("\nApply order:"));
+      order.forEach((name, i) => {
+        const note = requiredBy.has(name) ? chalk.gray(` (auto-included, required by ${requiredBy.get(name)})`) : "";
+        this.log(`  ${i + 1}. ${name}${note}`);
+      });
+
+      const action = await this.prompter.prompt({
+        type: "list",
+        name: "action",
+        message: "Apply these modules?",
+        choices: [
+          { name: "Apply", value: "apply" },
+          { name: "Change selection", value: "change" },
+          { name: "Cancel", value: "cancel" },
+        ],
+      });
+      if (action === "apply") return selected;
+      if (action === "cancel") throw new OperationCancelledError("Module selection cancelled");
+    }
+  }
+
+  /**
+   * Picks a choice for every option of the modules to apply, from --opt, boilit.lock, a prompt or
+   * the option's default, and merges what each choice adds into its module. Choices can add
+   * dependencies with options of their own, so the dependencies are walked as they are chosen.
+   */
+  private async chooseOptions(moduleNames: string[]) {
+    const modules = this.config?.modules || {};
+    for (const key of Object.keys(this.optionValues)) {
+      const dot = key.indexOf(".");
+      const [name, option] = [key.slice(0, Math.max(dot, 0)), key.slice(dot + 1)];
+      if (!modules[name]?.options?.[option]) {
+        const known = Object.keys(modules[name]?.options || {}).map((o) => `${name}.${o}`);
+        throw new Error(
+          `Unknown option '${key}'.${known.length ? ` Options of module '${name}': ${known.join(", ")}` : ""}`
+        );
+      }
+    }
+
+    const visit = async (name: string) => {
+      if (this.optionsChosen.has(name) || !modules[name]) return;
+      this.optionsChosen.add(name);
+
+      const values: Record<string, string> = {};
+      for (const [option, definition] of Object.entries(modules[name].options || {})) {
+        values[option] = await this.chooseOption(name, option, definition);
+      }
+      this.applyOptionChoices(name, values);
+
+      for (const dep of localDependencies(modules[name])) {
+        await visit(dep);
+      }
+    };
+    for (const name of moduleNames) {
+      await visit(name);
+    }
+    this.sessionOptions.opts = { ...this.optionValues };
+  }
+
+  private async chooseOption(moduleName: string, option: string, definition: ModuleOption): Promise<string> {
+    const key = `${moduleName}.${option}`;
+    const choices = Object.keys(definition.choices);
+    let value = this.optionValues[key] ?? this.lockedSource?.modules[moduleName]?.options?.[option];
+
+    if (value === undefined && this.interactive) {
+      value = await this.prompter.prompt<string>({
+        type: "list",
+        name: "value",
+        message: definition.prompt || `Choose ${key}`,
+        choices: choices.map((choice) => ({ name: choice, value: choice })),
+        default: definition.default,
+      });
+    }
+
+    value = value ?? definition.default;
+    if (value === undefined) {
+      throw new Error(`No choice for option '${key}'. Pass it with --opt ${key}=<${choices.join("|")}>.`);
+    }
+    if (!choices.includes(value)) {
+      throw new Error(`Invalid choice '${value}' for option '${key}'. Choices: ${choices.join(", ")}`);
+    }
+    this.optionValues[key] = value;
+    return value;
+  }
+
+  /**
+   * Adds the refs, files and dependencies of the chosen values to the module, so the rest of the
+   * run treats them as part of it.
+   */
+  private applyOptionChoices(moduleName: string, values: Record<string, string>) {
+    const module = this.config?.modules[moduleName];
+    if (!this.config || !module || Object.keys(values).length === 0) return;
+
+    const chosen = Object.entries(module.options ?? {})
+      .filter(([option, definition]) => values[option] !== undefined && values[option] in definition.choices)
+      .map(([option, definition]) => choiceOf(definition, values[option]));
+    const refs = [...moduleRefs(module), ...chosen.flatMap((choice) => choice.refs || [])];
+    const files = [...(module.files || []), ...chosen.flatMap((choice) => choice.files || [])];
+    const dependencies = [...(module.dependencies || []), ...chosen.flatMap((choice) => choice.dependencies || [])];
+    this.config.modules[moduleName] = {
+      ...module,
+      version: undefined,
+      refs: refs.length > 0 ? refs : undefined,
+      files: files.length > 0 ? files : undefined,
+      dependencies: dependencies.length > 0 ? dependencies : undefined,
+    };
+
+    const names = Object.keys(this.config.modules);
+    const cycle = this.detectCircularDependency(moduleName, localDependencies(this.config.modules[moduleName]), names);
+    if (cycle) {
+      throw new Error(
+        `Circular dependency detected: ${cycle.join(" → ")} → ${moduleName}. ` +
+        "Dependencies must form a directed acyclic graph."
+      );
+    }
+  }
+
+  /** The choices recorded for a module in boilit.lock. */
+  private chosenOptions(moduleName: string): Record<string, string> | undefined {
+    const options = Object.keys(this.config?.modules[moduleName]?.options || {});
+    if (options.length === 0) return undefined;
+    return Object.fromEntries(options.map((option) => [option, this.optionValues[`${moduleName}.${option}`]]));
+  }
+
   private resolveDependencies(moduleNames: string[]): string[] {
     if (!this.config) return [];
 
@@ -166,11 +2098,9 @@ export class BoilIt {
       const module = this.config?.modules[moduleName];
       if (!module) return;
 
-      if (module.dependencies) {
-        for (const dep of module.dependencies) {
-          if (!resolved.has(dep)) {
-            resolve(dep);
-          }
+      for (const dep of localDependencies(module)) {
+        if (!resolved.has(dep)) {
+          resolve(dep);
         }
       }
 
@@ -181,57 +2111,422 @@ export class BoilIt {
       resolve(moduleName);
     }
 
-    return Array.from(resolved);
+    return Array.from(resolved);
+  }
+
+  /** The dependencies boilit.lock records for `module`, with other repositories by their URL. */
+  private async lockedDependencies(module: Module): Promise<Array<string | LockedDependency>> {
+    const external: LockedDependency[] = [];
+    for (const dep of externalDependencies(module)) {
+      external.push({ url: await this.sourceUrl(dep.repo), module: dep.module, ...(dep.ref ? { ref: dep.ref } : {}) });
+    }
+    return [...localDependencies(module), ...external];
+  }
+
+  private async applyModuleRefs(
+    moduleKey: string,
+    module: Module,
+    repoDir: string,
+    resume?: SessionCursor
+  ) {
+    const spinner = await this.startSpinner(`Applying module: ${moduleKey}`);
+
+    try {
+      const applied: LockedRef[] = [];
+      const locked = this.lockedSource?.modules[moduleKey];
+      this.progress = { module: moduleKey, refs: [], refIndex: 0, shaIndex: 0 };
+      if (resume) {
+        applied.push(...resume.refs.slice(0, resume.refIndex));
+        await this.pickRefs(repoDir, resume.refs, applied, resume.refIndex, resume.shaIndex);
+      } else if (locked) {
+        await this.replayLockedRefs(repoDir, locked.refs, applied);
+      } else {
+        await this.prepareRepoForModule(repoDir, moduleKey, module, applied);
+      }
+      const dependencies = await this.lockedDependencies(module);
+      this.appliedModules[moduleKey] = {
+        refs: applied,
+        ...(dependencies.length ? { dependencies } : {}),
+        ...(this.modulePath(moduleKey) ? { path: this.modulePath(moduleKey) } : {}),
+        ...(this.chosenOptions(moduleKey) ? { options: this.chosenOptions(moduleKey) } : {}),
+        ...(this.moduleVariables[moduleKey] ? { variables: this.moduleVariables[moduleKey] } : {}),
+      };
+      if (this.moduleScope(moduleKey) === "changes") {
+        this.moduleHeads[moduleKey] = await this.getHeadCommit(repoDir);
+      }
+      if (this.mode === "commit" && !this.preserveHistory) {
+        await this.recordCommitStep(repoDir, { module: moduleKey });
+      }
+      spinner.succeed(`Applied module: ${moduleKey}`);
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      if (error instanceof OperationCancelledError) {
+        spinner.info(`Operation cancelled while applying module: ${moduleKey}`);
+      } else if (error instanceof SessionPausedError) {
+        spinner.info(`Paused while applying module: ${moduleKey}`);
+      } else {
+        spinner.fail(`Failed to apply module ${moduleKey}: ${errorMessage}`);
+      }
+      throw error;
+    }
+  }
+
+  /** Creates `dir` in the target, noting the directories that did not exist yet. */
+  private async ensureTargetDir(targetPath: string, dir: string) {
+    const root = path.resolve(targetPath);
+    for (let parent = path.resolve(dir); parent.startsWith(root + path.sep); parent = path.dirname(parent)) {
+      if (await fs.pathExists(parent)) break;
+      this.createdDirs.add(path.relative(root, parent).split(path.sep).join("/"));
+    }
+    await fs.ensureDir(dir);
+  }
+
+  /** `select` keeps the files of some modules, by the module that provides them (unset for `[default]`). */
+  private async copyToTarget(
+    repoDir: string,
+    targetPath: string,
+    modulesToApply: string[],
+    write = !this.dryRun,
+    select: (module?: string) => boolean = () => true
+  ): Promise<PlannedCopy[]> {
+    const planned = (await this.planCopies(repoDir, targetPath, modulesToApply)).filter((file) => select(file.module));
+    if (!write) return planned;
+
+    await this.resolveCopyActions(planned, targetPath);
+    await fs.ensureDir(targetPath);
+    for (const { src, dest, status, action = "write" } of planned) {
+      if (action !== "skip") {
+        await this.ensureTargetDir(targetPath, path.dirname(dest));
+        if (action === "backup") {
+          await fs.copy(dest, `${dest}.orig`, { overwrite: true });
+        }
+        if (action === "merge") {
+          await this.mergeIntoExisting(src, dest);
+        } else {
+          await fs.copy(src, dest, { overwrite: true });
+        }
+      }
+      this.emitCopied(targetPath, { dest, status, action });
+    }
+    return planned;
+  }
+
+  private async planCopies(repoDir: string, targetPath: string, modulesToApply: string[]): Promise<PlannedCopy[]> {
+    const toCopy = await this.collectCopies(repoDir, targetPath, modulesToApply);
+    const planned: PlannedCopy[] = [];
+    for (const copy of toCopy) {
+      const src = await this.renderFile(repoDir, copy.src, copy.module);
+      planned.push({
+        src,
+        dest: copy.dest,
+        repoPath: copy.repoPath,
+        ...(copy.module ? { module: copy.module } : {}),
+        status: await this.classifyCopy(src, copy.dest),
+      });
+    }
+    return planned;
+  }
+
+  /**
+   * Applies the --on-existing policy to files that differ from the target, setting each file's action.
+   */
+  private async resolveCopyActions(planned: PlannedCopy[], targetPath: string) {
+    const changed = planned.filter((p) => p.status === "changed");
+    if (this.onExisting === "fail" && changed.length > 0) {
+      const list = changed.map((p) => path.relative(targetPath, p.dest)).join(", ");
+      throw new Error(
+        `Refusing to overwrite ${changed.length} existing file${changed.length > 1 ? "s" : ""} with local changes: ${list}. ` +
+        "Use --on-existing=overwrite|skip|prompt|backup to choose how to handle them."
+      );
+    }
+
+    for (const file of planned) {
+      file.action = file.status === "changed" ? await this.resolveExistingAction(file.src, file.dest) : "write";
+    }
+  }
+
+  private emitCopied(targetPath: string, { dest, status, action = "write" }: Omit<PlannedCopy, "src" | "repoPath">) {
+    this.emit({
+      type: "file-copied",
+      path: path.relative(targetPath, dest).split(path.sep).join("/"),
+      status,
+      action,
+    });
+  }
+
+  /**
+   * Brings the target to each recorded step in turn (the source files, then every module, or every
+   * picked commit with --preserve-history) and commits it, so modules land as separate commits
+   * that can be reviewed and reverted on their own. How existing files are handled is decided
+   * once, against the final state; merged files are only written in the last step.
+   */
+  private async commitSteps(
+    repoDir: string,
+    targetPath: string,
+    select: (module?: string) => boolean = () => true
+  ): Promise<PlannedCopy[]> {
+    const planned = (await this.planCopies(repoDir, targetPath, this.order)).filter((file) => select(file.module));
+    await this.resolveCopyActions(planned, targetPath);
+    const actions = new Map(planned.map((file) => [file.dest, file.action || "write"]));
+    const steps = this.steps.filter((step) => select(step.module));
+    const finalHead = await this.getHeadCommit(repoDir);
+    const backedUp = new Set<string>();
+
+    try {
+      for (const [index, step] of steps.entries()) {
+        await this.checkoutCommit(repoDir, step.head);
+        const changed: string[] = [];
+        for (const { src, dest } of await this.planCopies(repoDir, targetPath, this.order)) {
+          // Only files of the final state are written; ones a later step deletes again are left out
+          const action = actions.get(dest);
+          if (!action || action === "skip") continue;
+          if (action === "merge") {
+            if (index < steps.length - 1) continue;
+            await this.mergeIntoExisting(src, dest);
+            changed.push(dest);
+            continue;
+          }
+          if ((await fs.pathExists(dest)) && (await this.classifyCopy(src, dest)) === "identical") continue;
+          await this.ensureTargetDir(targetPath, path.dirname(dest));
+          if (action === "backup" && !backedUp.has(dest)) {
+            await fs.copy(dest, `${dest}.orig`, { overwrite: true });
+            backedUp.add(dest);
+          }
+          await fs.copy(src, dest, { overwrite: true });
+          changed.push(dest);
+        }
+        await this.commitToTarget(targetPath, changed, await this.describeCommitStep(repoDir, step), step);
+      }
+    } finally {
+      await this.checkoutCommit(repoDir, finalHead);
+    }
+
+    for (const file of planned) this.emitCopied(targetPath, file);
+    return planned;
+  }
+
+  private async describeCommitStep(repoDir: string, step: CommitStep): Promise<string> {
+    if (!step.module) {
+      return `Add files from ${this.repoUrl}\n\nSource: ${this.repoUrl}\nSource-Commit: ${this.configCommit}`;
+    }
+    if (step.sha) {
+      const { stdout } = await this.git(["-C", repoDir, "log", "-1", "--format=%B", step.head], { stdio: "pipe" });
+      return `${stdout.trim()}\n\nModule: ${step.module}\nRef: ${step.ref}\nSource-Commit: ${step.sha}`;
+    }
+    const refs = (this.appliedModules[step.module]?.refs || []).map(
+      (ref) => `Ref: ${ref.ref} (${ref.origin}) ${ref.commits.join(" ")}`
+    );
+    return [`Apply module ${step.module}`, "", `Source: ${this.repoUrl}`, ...refs].join("\n");
+  }
+
+  /**
+   * Commits only the given target files, leaving anything else in the working tree or index alone.
+   * A picked source commit keeps its original author and date.
+   */
+  private async commitToTarget(targetPath: string, files: string[], message: string, step?: CommitStep) {
+    if (files.length === 0) return;
+    const paths = files.map((file) => path.relative(targetPath, file));
+    await this.git(["-C", targetPath, "add", "--", ...paths], { stdio: "pipe" });
+    const { exitCode } = await this.git(
+      ["-C", targetPath, "diff", "--cached", "--quiet", "--", ...paths],
+      { stdio: "pipe", reject: false }
+    );
+    if (exitCode === 0) return;
+
+    let env: Record<string, string> | undefined;
+    if (step?.sha) {
+      const { stdout } = await this.git(
+        ["-C", path.join(this.tempDir, this.repoName), "log", "-1", "--format=%an%n%ae%n%aI", step.head],
+        { stdio: "pipe" }
+      );
+      const [name, email, date] = stdout.split("\n");
+      env = { GIT_AUTHOR_NAME: name, GIT_AUTHOR_EMAIL: email, GIT_AUTHOR_DATE: date };
+    }
+    await this.git(["-C", targetPath, "commit", "--quiet", "-m", message, "--", ...paths], { stdio: "pipe", env });
+  }
+
+  /** Absolute paths of the modified, deleted and untracked (not ignored) files under `targetPath`. */
+  private async listUncommittedFiles(targetPath: string): Promise<Set<string>> {
+    const { stdout } = await this.git(
+      ["-C", targetPath, "ls-files", "-z", "--modified", "--others", "--exclude-standard"],
+      { stdio: "pipe" }
+    );
+    return new Set(stdout.split("\0").filter(Boolean).map((file) => path.join(targetPath, file)));
+  }
+
+  private async recordCommitStep(repoDir: string, step: Omit<CommitStep, "head"> = {}) {
+    this.steps.push({ ...step, head: await this.getHeadCommit(repoDir) });
+  }
+
+  private async assertCommitTarget(targetPath: string, allowDirty: boolean) {
+    const { stdout, exitCode } = await this.git(
+      ["-C", targetPath, "rev-parse", "--is-inside-work-tree"],
+      { stdio: "pipe", reject: false }
+    );
+    if (exitCode !== 0 || stdout.trim() !== "true") {
+      throw new Error(`--mode=commit needs ${targetPath} to be inside a git repository`);
+    }
+    if (allowDirty) return;
+
+    const { stdout: status } = await this.git(["-C", targetPath, "status", "--porcelain"], { stdio: "pipe" });
+    if (status.trim()) {
+      throw new Error(
+        `${targetPath} has uncommitted changes. Commit or stash them first, or pass --allow-dirty.`
+      );
+    }
+  }
+
+  private async resolveExistingAction(src: string, dest: string): Promise<FileAction> {
+    switch (this.onExisting) {
+      case "skip":
+        return "skip";
+      case "backup":
+        return "backup";
+      case "prompt":
+        return this.promptExistingAction(src, dest);
+      default:
+        return "write";
+    }
+  }
+
+  private async promptExistingAction(src: string, dest: string): Promise<FileAction> {
+    this.log(chalk.yellow(`\n${dest} already exists and differs from the module version:`));
+    const { stdout } = await this.git(
+      ["diff", "--no-index", "--color", "--", dest, src],
+      { stdio: "pipe", reject: false }
+    );
+    this.log(stdout);
+
+    return this.prompter.prompt<FileAction>({
+      type: "list",
+      name: "action",
+      message: `How should ${dest} be handled?`,
+      choices: [
+        { name: "Keep local file", value: "skip" },
+        { name: "Replace with module version", value: "write" },
+        { name: "Merge (write conflict markers to resolve manually)", value: "merge" },
+      ],
+    });
   }
 
-  private async applyModuleRefs(
-    moduleKey: string,
-    module: Module,
-    repoDir: string
-  ) {
-    const { default: ora } = await import("ora");
-    const spinner = ora(`Applying module: ${moduleKey}`).start();
+  private async mergeIntoExisting(src: string, dest: string) {
+    const base = path.join(this.tempDir, ".merge-base");
+    await fs.writeFile(base, "");
 
-    try {
-      await this.prepareRepoForModule(repoDir, module);
-      spinner.succeed(`Applied module: ${moduleKey}`);
-    } catch (error: unknown) {
-      const errorMessage =
-        error instanceof Error ? error.message : "Unknown error";
-      if (error instanceof OperationCancelledError) {
-        spinner.info(`Operation cancelled while applying module: ${moduleKey}`);
-      } else {
-        spinner.fail(`Failed to apply module ${moduleKey}: ${errorMessage}`);
-      }
-      throw error;
+    // Without a common ancestor every differing hunk becomes a conflict the user resolves in place
+    const { stdout, stderr, exitCode } = await this.git(
+      ["merge-file", "-p", "-L", "local", "-L", "base", "-L", "module", dest, base, src],
+      { stdio: "pipe", reject: false, stripFinalNewline: false }
+    );
+    // merge-file exits with the number of conflicts, or a negative status (255) on error
+    if (exitCode > 127) {
+      throw new Error(`Failed to merge ${dest}: ${stderr}`);
+    }
+    await fs.writeFile(dest, stdout);
+    if (exitCode > 0) {
+      this.log(chalk.yellow(`Conflict markers written to ${dest}; resolve them before committing.`));
     }
   }
 
-  private async copyToTarget(repoDir: string, targetPath: string, modulesToApply: string[]) {
-    await fs.ensureDir(targetPath);
+  /**
+   * Substitutes variables into a text file. Rendered files are staged under the temp dir so the
+   * rest of the copy pipeline keeps working with plain source paths.
+   */
+  private async renderFile(repoDir: string, src: string, module?: string): Promise<string> {
+    const values = this.variablesFor(module);
+    if (Object.keys(values).length === 0) return src;
+
+    const content = await fs.readFile(src);
+    if (isBinary(content)) return src;
 
+    const text = content.toString("utf-8");
+    if (!hasPlaceholders(text)) return src;
+
+    // Files of a module's worktree (see moduleTree) are kept apart from the clone's
+    const rel = path.relative(repoDir, src);
+    const staged = path.join(
+      this.tempDir,
+      ".rendered",
+      // Modules with values of their own render the same file differently
+      values === this.variables ? "" : `@${module}`,
+      rel.startsWith("..") ? path.relative(this.tempDir, src) : rel
+    );
+    await fs.ensureDir(path.dirname(staged));
+    await fs.writeFile(staged, renderTemplate(text, values));
+    return staged;
+  }
+
+  private async classifyCopy(src: string, dest: string): Promise<FileStatus> {
+    if (!(await fs.pathExists(dest))) return "new";
+    const [incoming, existing] = await Promise.all([fs.readFile(src), fs.readFile(dest)]);
+    return incoming.equals(existing) ? "identical" : "changed";
+  }
+
+  /**
+   * Lists the files to copy. Paths touched by a module with scope "changes" belong to that module
+   * only: they are copied under its `path`, as that module left them, and left out of
+   * `[default].files` and the other modules. `modules` provides the commits of each module.
+   */
+  private async collectCopies(
+    repoDir: string,
+    targetPath: string,
+    modulesToApply: string[],
+    modules: Record<string, LockedModule> = this.appliedModules
+  ): Promise<CollectedCopy[]> {
     const cfg = this.config;
     const defaultFiles = cfg?.default?.files;
     const defaultIgnore = cfg?.default?.ignore || [];
 
-    const toCopy: Array<{ src: string; dest: string }> = [];
-    const added = new Set<string>();
+    const toCopy: CollectedCopy[] = [];
+    const added = new Map<string, CollectedCopy>();
+
+    const changes = new Map<string, Set<string>>();
+    const claimed = new Set<string>();
+    for (const name of modulesToApply) {
+      if (this.moduleScope(name) !== "changes") continue;
+      const touched = await this.listChangedPaths(repoDir, (modules[name]?.refs || []).flatMap((ref) => ref.commits));
+      changes.set(name, touched);
+      touched.forEach((rel) => claimed.add(rel));
+    }
+
+    // Files no module selects take the values of a module with variables of its own that touched them
+    const valuesOwner = new Map<string, string>();
+    for (const name of modulesToApply) {
+      if (!this.moduleVariables[name]) continue;
+      const touched =
+        changes.get(name) ??
+        (await this.listChangedPaths(repoDir, (modules[name]?.refs || []).flatMap((ref) => ref.commits)));
+      touched.forEach((rel) => valuesOwner.set(rel, name));
+    }
 
     const addCopies = async (
       includes: string[],
       ignores: string[],
-      destBase: string
+      destBase: string,
+      module?: string,
+      only?: Set<string>
     ) => {
-      const files = await this.collectFiles(repoDir, includes);
+      // A later module may change the same paths, so a module's own changes come from its state
+      const dir = only && module ? await this.moduleTree(repoDir, module) : repoDir;
+      const files = await this.collectFiles(dir, includes);
       const ignoreRegexes = (ignores || []).map((p) => this.globToRegExp(p));
       for (const abs of files) {
-        const rel = path.relative(repoDir, abs).split(path.sep).join("/");
+        const rel = path.relative(dir, abs).split(path.sep).join("/");
         if (ignoreRegexes.some((r) => r.test(rel))) continue;
-        const dest = path.join(destBase, rel);
+        if (only ? !only.has(rel) : claimed.has(rel)) continue;
+        const owner = module ?? valuesOwner.get(rel);
+        const dest = path.join(destBase, renderTemplate(rel, this.variablesFor(owner)));
         const key = `${abs} -> ${dest}`;
-        if (added.has(key)) continue;
-        added.add(key);
-        toCopy.push({ src: abs, dest });
+        const existing = added.get(key);
+        if (existing) {
+          // Also selected by [default].files: the first module naming it provides it
+          existing.module ??= module;
+          continue;
+        }
+        const copy = { src: abs, dest, repoPath: rel, ...(owner ? { module: owner } : {}) };
+        added.set(key, copy);
+        toCopy.push(copy);
       }
     };
 
@@ -244,11 +2539,13 @@ export class BoilIt {
     for (const name of modulesToApply) {
       const mod = cfg?.modules[name];
       if (!mod) continue;
-      const includes = mod.files;
-      if (includes && includes.length > 0) {
-        const destBase = mod.path ? path.join(targetPath, mod.path) : targetPath;
+      const touched = changes.get(name);
+      const includes = mod.files && mod.files.length > 0 ? mod.files : touched ? ["**/*", "*"] : undefined;
+      if (includes) {
+        const modPath = this.modulePath(name);
+        const destBase = modPath ? path.join(targetPath, modPath) : targetPath;
         const ignores = [...(defaultIgnore || []), ...(mod.ignore || [])];
-        await addCopies(includes, ignores, destBase);
+        await addCopies(includes, ignores, destBase, name, touched);
       }
     }
 
@@ -259,40 +2556,131 @@ export class BoilIt {
       for (const abs of all) {
         const rel = path.relative(repoDir, abs).split(path.sep).join("/");
         if (ignoreRegexes.length > 0 && ignoreRegexes.some((r) => r.test(rel))) continue;
-        const dest = path.join(targetPath, rel);
-        toCopy.push({ src: abs, dest });
+        if (claimed.has(rel)) continue;
+        const owner = valuesOwner.get(rel);
+        const dest = path.join(targetPath, renderTemplate(rel, this.variablesFor(owner)));
+        toCopy.push({ src: abs, dest, repoPath: rel, ...(owner ? { module: owner } : {}) });
       }
     }
 
-    for (const { src, dest } of toCopy) {
-      await fs.ensureDir(path.dirname(dest));
-      await fs.copy(src, dest, { overwrite: true });
+    return toCopy;
+  }
+
+  private moduleScope(name: string): Module["scope"] {
+    return this.config?.modules[name]?.scope ?? this.config?.default?.scope;
+  }
+
+  /**
+   * The clone as module `name` left it: a worktree at the HEAD recorded after its refs once later
+   * modules were applied on top, otherwise the clone itself.
+   */
+  private async moduleTree(repoDir: string, name: string): Promise<string> {
+    const head = this.moduleHeads[name];
+    if (!head || head === (await this.getHeadCommit(repoDir))) return repoDir;
+    const { exitCode } = await this.git(
+      ["-C", repoDir, "merge-base", "--is-ancestor", head, "HEAD"],
+      { stdio: "pipe", reject: false }
+    );
+    if (exitCode !== 0) return repoDir;
+
+    const dir = path.join(this.tempDir, "heads", head);
+    if (!(await fs.pathExists(dir))) {
+      await this.git(["-C", repoDir, "worktree", "add", "--detach", "--quiet", dir, head], { stdio: "pipe" });
+    }
+    return dir;
+  }
+
+  private async readConfig() {
+    const configData = await this.resolveExtends(
+      await this.readConfigFile(),
+      [this.sourceKey(this.repoUrl, this.sourceRef)]
+    );
+
+    try {
+      this.config = BoilItConfigSchema.parse(configData);
+    } catch (error: any) {
+      throw new Error(`Invalid boilit.toml configuration: ${error.message}`);
     }
+
+    this.validateConfig();
+    this.emit({ type: "config-loaded", name: this.config.name, modules: Object.keys(this.config.modules) });
   }
 
-  private async loadConfig() {
+  private async readConfigFile(label = "boilit.toml"): Promise<RawConfig> {
     const configPath = path.join(this.tempDir, this.repoName, "boilit.toml");
 
     if (!(await fs.pathExists(configPath))) {
-      throw new Error("boilit.toml not found in the repository");
+      throw new Error(`${label} not found in the repository`);
     }
 
     const configContent = await fs.readFile(configPath, "utf-8");
-    let configData;
-    
     try {
-      configData = toml.parse(configContent);
+      return toml.parse(configContent);
     } catch (error: any) {
-      throw new Error(`Invalid TOML syntax in boilit.toml: ${error.message}`);
+      throw new Error(`Invalid TOML syntax in ${label}: ${error.message}`);
     }
+  }
 
-    try {
-      this.config = BoilItConfigSchema.parse(configData);
-    } catch (error: any) {
-      throw new Error(`Invalid boilit.toml configuration: ${error.message}`);
+  /**
+   * Merges `config` over the configs it extends, in the order listed. `chain` holds the sources
+   * being resolved, to report inheritance cycles.
+   */
+  private async resolveExtends(config: RawConfig, chain: string[]): Promise<RawConfig> {
+    if (config.extends === undefined) return config;
+    if (!Array.isArray(config.extends) || config.extends.some((spec) => typeof spec !== "string")) {
+      throw new Error("Invalid boilit.toml configuration: 'extends' must be a list of \"<repo-or-path>#<ref>\" strings");
     }
 
-    this.validateConfig();
+    let merged: RawConfig = {};
+    for (const [index, spec] of (config.extends as string[]).entries()) {
+      merged = mergeConfigs(merged, await this.loadParentConfig(spec, chain, index));
+    }
+    const { extends: _parents, ...own } = config;
+    const resolved = mergeConfigs(merged, own);
+    // `[default].origin` is where this repository's own refs live, so it is never inherited
+    const defaults = asTable(resolved.default);
+    if (defaults) defaults.origin = asTable(own.default)?.origin ?? this.repoUrl;
+    return resolved;
+  }
+
+  /**
+   * Clones a config listed in `extends` and resolves it. Its modules keep fetching their refs
+   * from where they would in the parent repository. Local paths are relative to this repository.
+   */
+  private async loadParentConfig(spec: string, chain: string[], index: number): Promise<RawConfig> {
+    const parent = new BoilIt({
+      cwd: this.localSource ?? path.join(this.tempDir, this.repoName),
+      tempDir: path.join(this.tempDir, "extends", String(index)),
+      git: this.git,
+      quiet: this.quiet,
+      ...(this.logger ? { logger: this.logger } : {}),
+    });
+    parent.cache = this.cache;
+    const source = parent.parseSource(spec);
+    parent.repoUrl = await parent.normalizeSource(source.url);
+    parent.repoName = parent.getRepoName(parent.repoUrl);
+    parent.sourceRef = source.ref;
+
+    const key = this.sourceKey(parent.repoUrl, source.ref);
+    if (chain.includes(key)) {
+      throw new Error(`Circular extends in boilit.toml: ${[...chain.slice(chain.indexOf(key)), key].join(" → ")}`);
+    }
+
+    try {
+      await parent.setupTempDir();
+      const repoDir = await parent.cloneRepo(parent.repoUrl);
+      if (source.ref) await parent.checkoutRef(repoDir, source.ref);
+      const config = await parent.resolveExtends(await parent.readConfigFile(`boilit.toml of ${spec}`), [...chain, key]);
+
+      const origin = parent.localSource ? parent.repoUrl : asTable(config.default)?.origin ?? parent.repoUrl;
+      for (const module of Object.values(asTable(config.modules) ?? {})) {
+        const table = asTable(module);
+        if (table) table.origin ??= origin;
+      }
+      return config;
+    } finally {
+      await parent.cleanup();
+    }
   }
 
   private validateConfig() {
@@ -308,14 +2696,38 @@ export class BoilIt {
       );
     }
 
+    this.validateVariables("[default]", this.config.default?.variables);
+
     for (const [moduleName, module] of Object.entries(this.config.modules)) {
       this.validateModule(moduleName, module, moduleNames);
+      this.validateVariables(`Module '${moduleName}'`, module.variables);
+    }
+  }
+
+  private validateVariables(owner: string, variables?: Record<string, Variable>) {
+    for (const [name, variable] of Object.entries(variables || {})) {
+      if (!variable.pattern) continue;
+      try {
+        new RegExp(variable.pattern);
+      } catch (error: any) {
+        throw new Error(
+          `${owner} has an invalid pattern for variable '${name}': ${error.message}`
+        );
+      }
     }
   }
 
   private validateModule(moduleName: string, module: Module, allModuleNames: string[]) {
     if (module.dependencies) {
       for (const dep of module.dependencies) {
+        if (typeof dep !== "string" && dep.ref !== undefined && dep.repo === undefined) {
+          throw new Error(
+            `Module '${moduleName}' sets a ref for dependency '${dep.module}' without a repo. ` +
+            "Modules of the same boilit.toml are applied from its own checkout."
+          );
+        }
+      }
+      for (const dep of localDependencies(module)) {
         if (!allModuleNames.includes(dep)) {
           throw new Error(
             `Module '${moduleName}' has invalid dependency '${dep}'. ` +
@@ -331,7 +2743,7 @@ export class BoilIt {
         }
       }
 
-      const circularDep = this.detectCircularDependency(moduleName, module.dependencies, allModuleNames);
+      const circularDep = this.detectCircularDependency(moduleName, localDependencies(module), allModuleNames);
       if (circularDep) {
         throw new Error(
           `Circular dependency detected: ${circularDep.join(" → ")} → ${moduleName}. ` +
@@ -347,6 +2759,43 @@ export class BoilIt {
       );
     }
 
+    for (const [option, definition] of Object.entries(module.options || {})) {
+      const choices = Object.keys(definition.choices);
+      if (choices.length === 0) {
+        throw new Error(`Option '${option}' of module '${moduleName}' has no choices.`);
+      }
+      if (definition.default !== undefined && !choices.includes(definition.default)) {
+        throw new Error(
+          `Option '${option}' of module '${moduleName}' defaults to '${definition.default}', ` +
+          `which is not one of its choices: ${choices.join(", ")}`
+        );
+      }
+      for (const value of choices) {
+        for (const dep of localDependencies(choiceOf(definition, value))) {
+          if (!allModuleNames.includes(dep) || dep === moduleName) {
+            throw new Error(
+              `Choice '${value}' of option '${moduleName}.${option}' has invalid dependency '${dep}'. ` +
+              `Available modules: ${allModuleNames.filter((name) => name !== moduleName).join(", ")}`
+            );
+          }
+        }
+      }
+    }
+
+    if (module.refs && module.version !== undefined) {
+      throw new Error(
+        `Module '${moduleName}' sets both refs and version. ` +
+        `Use one of them, or write the range as a '${SEMVER_REF_PREFIX}' ref.`
+      );
+    }
+
+    for (const spec of moduleRefs(module)) {
+      const range = semverRange(spec);
+      if (range !== null && !isValidRange(range)) {
+        throw new Error(`Module '${moduleName}' has invalid version range '${range}'.`);
+      }
+    }
+
     if (module.files && module.files.length === 0) {
       throw new Error(
         `Module '${moduleName}' has empty files array. ` +
@@ -396,7 +2845,7 @@ export class BoilIt {
       
       const depModule = this.config?.modules[dep];
       if (depModule?.dependencies) {
-        const cycle = this.detectCircularDependency(dep, depModule.dependencies, allModuleNames, visited, path);
+        const cycle = this.detectCircularDependency(dep, localDependencies(depModule), allModuleNames, visited, path);
         if (cycle) return cycle;
       }
     }
@@ -414,10 +2863,11 @@ export class BoilIt {
     );
 
     try {
-      const execa = (await import("execa")).default;
-      await execa("git", ["clone", repo, targetDir], {
+      this.emit({ type: "clone-started", url: repo });
+      await this.git(["clone", await this.fetchUrl(repo), targetDir], {
         stdio: "pipe",
       });
+      this.emit({ type: "clone-finished", url: repo });
       return targetDir;
     } catch (error: unknown) {
       const errorMessage =
@@ -426,108 +2876,421 @@ export class BoilIt {
     }
   }
 
-  private async prepareRepoForModule(repoDir: string, module: Module) {
-    const execa = (await import("execa")).default;
-    if (!module.refs || module.refs.length === 0) return;
+  private async getHeadCommit(repoDir: string): Promise<string> {
+    const { stdout } = await this.git(["-C", repoDir, "rev-parse", "HEAD"], { stdio: "pipe" });
+    return (stdout || "").trim();
+  }
+
+  /**
+   * Where a module's refs are fetched from. For local sources the local repository replaces
+   * `[default].origin`, so unpushed branches can be used while authoring modules.
+   */
+  private getOriginUrl(module?: Module): string {
+    if (module?.origin) return module.origin;
+    if (this.localSource) return this.repoUrl;
+    return this.config?.default?.origin || this.repoUrl;
+  }
+
+  private createCache(options: { cache?: boolean; offline?: boolean }): RepoCache | null {
+    if (options.cache === false) {
+      if (options.offline) {
+        throw new Error("--offline cannot be combined with --no-cache");
+      }
+      return null;
+    }
+    return new RepoCache(undefined, !!options.offline, this.git);
+  }
+
+  /**
+   * The location git should fetch `url` from: its cached mirror for remote URLs, the URL itself
+   * for local repositories or when caching is disabled.
+   */
+  private async fetchUrl(url: string): Promise<string> {
+    if (!this.cache || !this.isRemoteUrl(url)) return url;
+    return this.cache.ensure(url);
+  }
 
-    await execa("git", ["-C", repoDir, "fetch", "--all"], { stdio: "pipe" });
+  private isRemoteUrl(url: string): boolean {
+    if (url.startsWith("file://")) return false;
+    return /^[a-z][a-z0-9+.-]*:\/\//i.test(url) || /^[^/\\]+@[^/\\]+:/.test(url);
+  }
+
+  /**
+   * Local directories (and file:// URLs) are resolved to absolute paths so they keep working
+   * from inside the temp clone.
+   */
+  private async normalizeSource(repo: string): Promise<string> {
+    const url = await this.sourceUrl(repo);
+    this.localSource = url.startsWith("file://") ? fileURLToPath(url) : this.isRemoteUrl(url) ? null : url;
+    return url;
+  }
+
+  /** The URL of `repo` as sources are keyed: remote and file:// URLs as given, local paths made absolute. */
+  private async sourceUrl(repo: string): Promise<string> {
+    if (repo.startsWith("file://") || this.isRemoteUrl(repo)) return repo;
+
+    const absolute = this.cwd ? path.resolve(this.cwd, repo) : path.resolve(repo);
+    if (!(await fs.pathExists(absolute))) {
+      throw new Error(`Local repository not found: ${repo}`);
+    }
+    return absolute;
+  }
+
+  /**
+   * Carries uncommitted changes (staged, unstaged and untracked files) of a local source into
+   * the clone as a single commit, so modules can be tested before committing them.
+   */
+  private async includeWorkingTreeChanges(repoDir: string) {
+    if (!this.localSource) {
+      throw new Error("--include-dirty is only supported for local repositories");
+    }
 
-    const originUrl = module.origin || this.config?.default?.origin || this.repoUrl;
+    const source = this.localSource;
 
-    for (const ref of module.refs) {
+    const { stdout: diff } = await this.git(
+      ["-C", source, "diff", "HEAD", "--binary"],
+      { stdio: "pipe", stripFinalNewline: false }
+    );
+    if (diff && diff.trim()) {
       try {
-        // Fetch the ref directly from the origin URL; tip will be in FETCH_HEAD
-        await execa("git", ["-C", repoDir, "fetch", originUrl, ref], {
+        await this.git(["-C", repoDir, "apply", "--binary", "--index", "-"], {
+          input: diff,
           stdio: "pipe",
         });
-        const { stdout: current } = await execa(
-          "git",
-          ["-C", repoDir, "rev-parse", "HEAD"],
+      } catch (error: any) {
+        throw new Error(`Failed to apply uncommitted changes from ${source}: ${error.message}`);
+      }
+    }
+
+    const { stdout: untracked } = await this.git(
+      ["-C", source, "ls-files", "--others", "--exclude-standard", "-z"],
+      { stdio: "pipe" }
+    );
+    for (const rel of (untracked || "").split("\0").filter(Boolean)) {
+      await fs.copy(path.join(source, rel), path.join(repoDir, rel), { overwrite: true });
+    }
+
+    await this.git(["-C", repoDir, "add", "-A"], { stdio: "pipe" });
+    const { stdout: staged } = await this.git(
+      ["-C", repoDir, "diff", "--cached", "--name-only"],
+      { stdio: "pipe" }
+    );
+    if (!(staged || "").trim()) return;
+
+    await this.git(
+      ["-C", repoDir, "commit", "--no-verify", "-m", "boilit: uncommitted changes from working tree"],
+      { stdio: "pipe" }
+    );
+  }
+
+  /**
+   * Splits the `repo#ref` shorthand. An explicit --ref must agree with the shorthand.
+   */
+  private parseSource(repo: string, ref?: string): { url: string; ref?: string } {
+    const hashIndex = repo.lastIndexOf("#");
+    if (hashIndex === -1) return { url: repo, ref: ref || undefined };
+
+    const url = repo.slice(0, hashIndex);
+    const shorthandRef = repo.slice(hashIndex + 1);
+    if (!shorthandRef) {
+      throw new Error(`Missing ref after '#' in ${repo}`);
+    }
+    if (ref && ref !== shorthandRef) {
+      throw new Error(`Conflicting refs: '${shorthandRef}' in ${repo} and '${ref}' from --ref`);
+    }
+    return { url, ref: shorthandRef };
+  }
+
+  /**
+   * Checks out the branch, tag or commit that provides boilit.toml. Branches other than the
+   * default one only exist as remote-tracking refs right after cloning.
+   */
+  private async checkoutRef(repoDir: string, ref: string) {
+    for (const candidate of [ref, `origin/${ref}`]) {
+      try {
+        const { stdout } = await this.git(
+          ["-C", repoDir, "rev-parse", "--verify", "--quiet", `${candidate}^{commit}`],
           { stdio: "pipe" }
         );
-        const { stdout: base } = await execa(
-          "git",
-          ["-C", repoDir, "merge-base", current.trim(), `FETCH_HEAD`],
+        const sha = (stdout || "").trim();
+        if (!sha) continue;
+        await this.git(["-C", repoDir, "checkout", "--detach", sha], { stdio: "pipe" });
+        return;
+      } catch {}
+    }
+
+    throw new Error(`Ref '${ref}' not found in ${this.repoUrl}`);
+  }
+
+  private async checkoutCommit(repoDir: string, commit: string) {
+    try {
+      await this.git(["-C", repoDir, "checkout", "--detach", commit], { stdio: "pipe" });
+    } catch (error: any) {
+      throw new Error(`Failed to check out locked commit ${commit}: ${error.message}`);
+    }
+  }
+
+  private async replayLockedRefs(repoDir: string, lockedRefs: LockedRef[], applied: LockedRef[] = []) {
+    for (const locked of lockedRefs) {
+      for (const sha of locked.commits) {
+        try {
+          await this.git(["-C", repoDir, "cat-file", "-e", `${sha}^{commit}`], { stdio: "pipe" });
+        } catch {
+          // The commit is not reachable from the clone yet: fetch the ref it came from, then the SHA itself
+          const fetchFrom = await this.fetchUrl(locked.origin);
+          try {
+            await this.git(["-C", repoDir, "fetch", fetchFrom, locked.ref], { stdio: "pipe" });
+            await this.git(["-C", repoDir, "cat-file", "-e", `${sha}^{commit}`], { stdio: "pipe" });
+          } catch {
+            try {
+              await this.git(["-C", repoDir, "fetch", fetchFrom, sha], { stdio: "pipe" });
+            } catch (error: any) {
+              throw new Error(`Locked commit ${sha} for ref '${locked.ref}' is no longer available: ${error.message}`);
+            }
+          }
+        }
+      }
+    }
+
+    await this.pickRefs(repoDir, lockedRefs.map((locked) => ({ ...locked, commits: [...locked.commits] })), applied);
+  }
+
+  private async prepareRepoForModule(repoDir: string, moduleName: string, module: Module, applied: LockedRef[] = []) {
+    if (moduleRefs(module).length === 0) return;
+
+    const refs = await this.resolveModuleRefs(repoDir, moduleName, module);
+    await this.pickRefs(repoDir, refs, applied);
+  }
+
+  /**
+   * Resolves each ref of a module to the SHAs that will be cherry-picked, before any of them is
+   * applied, so a paused session can record the full list.
+   */
+  private async resolveModuleRefs(repoDir: string, moduleName: string, module: Module): Promise<LockedRef[]> {
+    const originUrl = this.getOriginUrl(module);
+    const fetchFrom = await this.fetchUrl(originUrl);
+    const resolved: LockedRef[] = [];
+
+    for (const spec of moduleRefs(module)) {
+      const { ref, range } = await this.resolveVersionRef(moduleName, spec, originUrl);
+      const version = range !== undefined ? { range } : {};
+      try {
+        // Fetch the ref directly from the origin URL; tip will be in FETCH_HEAD
+        await this.git(["-C", repoDir, "fetch", fetchFrom, ref], {
+          stdio: "pipe",
+        });
+        const { stdout: current } = await this.git(
+          ["-C", repoDir, "rev-parse", "HEAD"],
           { stdio: "pipe" }
         );
-        const { stdout: revs } = await execa(
-          "git",
+        // Unrelated histories have no merge base and fall back to the fetched tip below
+        await this.git(["-C", repoDir, "merge-base", current.trim(), "FETCH_HEAD"], { stdio: "pipe" });
+        // Commits whose change is already in the clone (marked "=", e.g. a dependency's branch
+        // this ref was built on) are left out, whether or not their SHAs match
+        const { stdout: revs } = await this.git(
           [
             "-C",
             repoDir,
             "rev-list",
             "--no-merges",
             "--reverse",
-            `${base}..FETCH_HEAD`,
+            "--cherry-mark",
+            "--right-only",
+            `${current.trim()}...FETCH_HEAD`,
           ],
           { stdio: "pipe" }
         );
-        const shas = revs.split("\n").filter(Boolean);
-        if (shas.length > 0) {
-          for (const sha of shas) {
-            await this.cherryPickWithConflictHandling(repoDir, sha);
-          }
+        const marked = revs.split("\n").filter(Boolean);
+        const shas = marked.filter((line) => !line.startsWith("=")).map((line) => line.replace(/^\+/, ""));
+        if (marked.length > 0) {
+          resolved.push({ ref, origin: originUrl, commits: shas, ...version });
           continue;
         }
       } catch {}
       // Fallback to applying the fetched tip directly
-      await execa("git", ["-C", repoDir, "fetch", originUrl, ref], { stdio: "pipe" });
-      await this.cherryPickWithConflictHandling(repoDir, `FETCH_HEAD`);
+      await this.git(["-C", repoDir, "fetch", fetchFrom, ref], { stdio: "pipe" });
+      const { stdout: tip } = await this.git(["-C", repoDir, "rev-parse", "FETCH_HEAD"], { stdio: "pipe" });
+      resolved.push({ ref, origin: originUrl, commits: tip ? [tip.trim()] : [], ...version });
     }
+
+    return resolved;
   }
 
-  private async cherryPickWithConflictHandling(repoDir: string, ref: string) {
-    const execa = (await import("execa")).default;
-    
+  /**
+   * Cherry-picks `refs` in order, starting at the given ref and commit when resuming. The cursor
+   * is tracked so a conflict can be saved as a session.
+   */
+  private async pickRefs(
+    repoDir: string,
+    refs: LockedRef[],
+    applied: LockedRef[],
+    startRef = 0,
+    startSha = 0
+  ) {
+    for (let r = startRef; r < refs.length; r++) {
+      const ref = refs[r];
+      for (let i = r === startRef ? startSha : 0; i < ref.commits.length; i++) {
+        if (this.progress) {
+          Object.assign(this.progress, { refs, refIndex: r, shaIndex: i });
+        }
+        const sha = ref.commits[i];
+        const module = this.progress?.module || "unknown";
+        const picked = await this.cherryPickWithConflictHandling(repoDir, sha);
+        if (picked === false) {
+          // Skipped from the conflict menu: the commit is not part of what was applied
+          this.emit({ type: "commit-skipped", module, ref: ref.ref, sha });
+          ref.commits.splice(i, 1);
+          i--;
+        } else {
+          if (this.preserveHistory) {
+            await this.recordCommitStep(repoDir, { module, ref: ref.ref, sha });
+          }
+          this.emit({ type: "commit-picked", module, ref: ref.ref, sha });
+        }
+      }
+      applied.push({ ...ref, commits: [...ref.commits] });
+    }
+  }
+
+  /**
+   * Returns false when the user chose to skip the commit while resolving a conflict.
+   */
+  private async cherryPickWithConflictHandling(
+    repoDir: string,
+    ref: string,
+    extraArgs: string[] = [],
+    flow: ConflictFlow = "use"
+  ): Promise<boolean> {
     try {
-      await execa("git", ["-C", repoDir, "cherry-pick", ref], {
+      await this.git(["-C", repoDir, "cherry-pick", ...extraArgs, ref], {
         stdio: "pipe",
       });
+      return true;
     } catch (error: any) {
-      if (error.exitCode === 1) {
-        await this.handleMergeConflict(repoDir, ref);
-      } else {
+      if (error.exitCode !== 1) {
         throw error;
       }
+      this.emit({
+        type: "conflict",
+        module: this.progress?.module || "unknown",
+        sha: ref,
+        files: await this.listConflictedFiles(repoDir),
+      });
+
+      // Without a terminal there is nobody to answer the menu, so conflicts fail unless a strategy was declared
+      const strategy = this.conflictStrategy ?? (this.interactive ? null : "fail");
+      if (strategy) {
+        return this.resolveConflictWithStrategy(repoDir, ref, strategy);
+      }
+
+      await this.saveSession();
+      let outcome: "resolved" | "skipped";
+      try {
+        outcome = await this.handleMergeConflict(repoDir, ref, flow);
+      } catch (conflictError) {
+        // Only an explicit cancel drops the session; anything else can still be resumed
+        if (conflictError instanceof OperationCancelledError) await this.discardSession();
+        throw conflictError;
+      }
+      await this.discardSession();
+      return outcome === "resolved";
     }
   }
 
-  private async handleMergeConflict(repoDir: string, ref: string) {
-    const inquirer = (await import("inquirer")).default;
-    const execa = (await import("execa")).default;
-    
-    console.log(chalk.yellow(`\n⚠️  Merge conflict detected while cherry-picking ${ref}`));
-    console.log(chalk.cyan("Please resolve the conflicts manually and then choose an option:"));
+  private async handleMergeConflict(repoDir: string, ref: string, flow: ConflictFlow = "use"): Promise<"resolved" | "skipped"> {
+    const sides = CONFLICT_SIDES[flow];
+    this.log(chalk.yellow(`\n⚠️  Merge conflict detected while cherry-picking ${ref}`));
+    this.log(chalk.cyan(`Temp repository: ${path.resolve(repoDir)}`));
     
     while (true) {
-      const { action } = await inquirer.prompt([
-        {
-          type: "list",
-          name: "action",
-          message: "What would you like to do?",
-          choices: [
-            { name: "Continue (conflicts resolved)", value: "continue" },
-            { name: "Cancel (abort cherry-pick)", value: "cancel" }
-          ]
-        }
-      ]);
-
-      if (action === "cancel") {
-        await execa("git", ["-C", repoDir, "cherry-pick", "--abort"], {
-          stdio: "pipe",
-        });
-        throw new OperationCancelledError(`Cherry-pick cancelled by user for ${ref}`);
+      const conflicts = await this.listConflictedFiles(repoDir);
+      if (conflicts.length > 0) {
+        this.log(chalk.cyan("Conflicted files:"));
+        for (const file of conflicts) this.log(`  ${path.join(path.resolve(repoDir), file)}`);
+      } else {
+        this.log(chalk.green("No conflicted files left."));
+      }
+
+      const action = await this.prompter.prompt({
+        type: "list",
+        name: "action",
+        message: "What would you like to do?",
+        choices: [
+          { name: "Continue (conflicts resolved)", value: "continue" },
+          { name: "Open conflicted files in $EDITOR", value: "edit" },
+          { name: "Run git mergetool", value: "mergetool" },
+          { name: `Keep ${sides.ours} (ours) for all files`, value: "ours" },
+          { name: `Take ${sides.theirs} (theirs) for all files`, value: "theirs" },
+          { name: "Choose ours/theirs per file", value: "per-file" },
+          { name: "Show the commit being picked", value: "show" },
+          { name: "Skip this commit", value: "skip" },
+          ...(this.sessionSaved
+            ? [{ name: "Pause (resume later with 'boilit continue')", value: "pause" }]
+            : []),
+          { name: "Cancel (abort cherry-pick)", value: "cancel" }
+        ]
+      });
+
+      switch (action) {
+        case "pause":
+          throw new SessionPausedError(repoDir);
+        case "cancel":
+          await this.git(["-C", repoDir, "cherry-pick", "--abort"], {
+            stdio: "pipe",
+          });
+          throw new OperationCancelledError(`Cherry-pick cancelled by user for ${ref}`);
+        case "skip":
+          await this.skipCherryPick(repoDir);
+          this.log(chalk.yellow(`↷ Skipped ${ref}`));
+          return "skipped";
+        case "edit":
+          await this.editConflictedFiles(repoDir, conflicts);
+          continue;
+        case "mergetool":
+          await this.git(["-C", repoDir, "mergetool"], { stdio: "inherit", reject: false });
+          continue;
+        case "ours":
+        case "theirs":
+          for (const file of conflicts) await this.takeSide(repoDir, file, action);
+          continue;
+        case "per-file":
+          for (const file of conflicts) {
+            const side = await this.prompter.prompt<"ours" | "theirs" | "leave">({
+              type: "list",
+              name: "side",
+              message: `${file}:`,
+              choices: [
+                { name: `Keep ${sides.ours} (ours)`, value: "ours" },
+                { name: `Take ${sides.theirs} (theirs)`, value: "theirs" },
+                { name: "Leave for manual resolution", value: "leave" },
+              ],
+            });
+            if (side !== "leave") await this.takeSide(repoDir, file, side);
+          }
+          continue;
+        case "show": {
+          const { stdout } = await this.git(["-C", repoDir, "show", "--color", ref], { stdio: "pipe", reject: false });
+          this.log(stdout);
+          continue;
+        }
+      }
+
+      const unresolved = await this.stageResolvedFiles(repoDir);
+      if (unresolved.length > 0) {
+        this.log(chalk.red(`❌ Conflict markers remain in: ${unresolved.join(", ")}`));
+        continue;
       }
 
       try {
-        await execa("git", ["-C", repoDir, "cherry-pick", "--continue"], {
+        await this.git(["-C", repoDir, "cherry-pick", "--continue"], {
           stdio: "pipe",
+          env: { GIT_EDITOR: "true" },
         });
-        console.log(chalk.green(`✔ Cherry-pick continued successfully for ${ref}`));
-        break;
+        this.log(chalk.green(`✔ Cherry-pick continued successfully for ${ref}`));
+        return "resolved";
       } catch (error: any) {
         if (error.exitCode === 1) {
-          console.log(chalk.red("❌ Conflicts still exist. Please resolve them before continuing."));
+          this.log(chalk.red("❌ Conflicts still exist. Please resolve them before continuing, or skip the commit if it is now empty."));
           continue;
         } else {
           throw error;
@@ -536,6 +3299,132 @@ export class BoilIt {
     }
   }
 
+  private async resolveConflictWithStrategy(
+    repoDir: string,
+    ref: string,
+    strategy: ConflictStrategy
+  ): Promise<boolean> {
+    const files = await this.listConflictedFiles(repoDir);
+    const module = this.progress?.module || "unknown";
+
+    if (strategy === "fail") {
+      await this.git(["-C", repoDir, "cherry-pick", "--abort"], { stdio: "pipe", reject: false });
+      throw new ConflictError(module, ref, files);
+    }
+
+    if (strategy !== "skip-commit") {
+      for (const file of files) await this.takeSide(repoDir, file, strategy);
+
+      const { exitCode } = await this.git(["-C", repoDir, "diff", "--cached", "--quiet"], {
+        stdio: "pipe",
+        reject: false,
+      });
+      if (exitCode !== 0) {
+        await this.git(["-C", repoDir, "cherry-pick", "--continue"], {
+          stdio: "pipe",
+          env: { GIT_EDITOR: "true" },
+        });
+        this.log(chalk.yellow(`⚠️  Conflict in module '${module}' at ${ref} resolved with '${strategy}': ${files.join(", ")}`));
+        return true;
+      }
+    }
+
+    // Either requested, or the resolution left nothing to commit
+    await this.skipCherryPick(repoDir);
+    this.log(chalk.yellow(`⚠️  Conflict in module '${module}' at ${ref}: commit skipped (${files.join(", ")})`));
+    return false;
+  }
+
+  private async editConflictedFiles(repoDir: string, files: string[]) {
+    const execa = (await import("execa")).default;
+    const editor = process.env.VISUAL || process.env.EDITOR || "vi";
+
+    // EDITOR may carry arguments (e.g. "code --wait"); the file is passed on its own, without a shell
+    const [command, ...args] = splitCommand(editor);
+
+    for (const file of files) {
+      const absolute = path.join(path.resolve(repoDir), file);
+      await execa(command, [...args, absolute], { stdio: "inherit", reject: false });
+    }
+  }
+
+  /**
+   * Resolves a conflicted file with one side of the cherry-pick: "ours" is the project built so
+   * far, "theirs" the commit being picked. A side that deleted the file resolves to a deletion.
+   */
+  private async takeSide(repoDir: string, file: string, side: "ours" | "theirs") {
+    try {
+      await this.git(["-C", repoDir, "checkout", `--${side}`, "--", file], { stdio: "pipe" });
+      await this.git(["-C", repoDir, "add", "--", file], { stdio: "pipe" });
+    } catch {
+      await this.git(["-C", repoDir, "rm", "--quiet", "--", file], { stdio: "pipe" });
+    }
+  }
+
+  /**
+   * Stages conflicted files that no longer contain conflict markers and returns the ones that
+   * still do.
+   */
+  private async stageResolvedFiles(repoDir: string): Promise<string[]> {
+    const unresolved: string[] = [];
+
+    for (const file of await this.listConflictedFiles(repoDir)) {
+      const absolute = path.join(repoDir, file);
+      if (await fs.pathExists(absolute)) {
+        const content = (await fs.readFile(absolute)).toString("utf-8");
+        if (/^(<{7}|>{7})( |$)/m.test(content)) {
+          unresolved.push(file);
+          continue;
+        }
+      }
+      await this.git(["-C", repoDir, "add", "-A", "--", file], { stdio: "pipe" });
+    }
+    return unresolved;
+  }
+
+  private async listConflictedFiles(repoDir: string): Promise<string[]> {
+    const { stdout } = await this.git(
+      ["-C", repoDir, "diff", "--name-only", "--diff-filter=U"],
+      { stdio: "pipe", reject: false }
+    );
+    return (stdout || "").split("\n").filter(Boolean);
+  }
+
+  private async continueCherryPick(repoDir: string) {
+    const unresolved = await this.stageResolvedFiles(repoDir);
+    if (unresolved.length > 0) {
+      throw new Error(`Conflict markers remain in: ${unresolved.join(", ")}. Resolve them in ${repoDir} first.`);
+    }
+
+    // The user may already have committed the pick by hand inside the temp repo
+    const { exitCode } = await this.git(
+      ["-C", repoDir, "rev-parse", "-q", "--verify", "CHERRY_PICK_HEAD"],
+      { stdio: "pipe", reject: false }
+    );
+    if (exitCode !== 0) return;
+
+    try {
+      await this.git(["-C", repoDir, "add", "-A"], { stdio: "pipe" });
+      await this.git(["-C", repoDir, "cherry-pick", "--continue"], {
+        stdio: "pipe",
+        env: { GIT_EDITOR: "true" },
+      });
+    } catch (error: any) {
+      throw new Error(
+        `Failed to continue the cherry-pick: ${error.stderr || error.message}. ` +
+        "If the commit is now empty, run 'boilit skip'."
+      );
+    }
+  }
+
+  private async skipCherryPick(repoDir: string) {
+    try {
+      await this.git(["-C", repoDir, "cherry-pick", "--skip"], { stdio: "pipe" });
+    } catch (error: any) {
+      throw new Error(`Failed to skip the commit: ${error.stderr || error.message}`);
+    }
+  }
+
   private async collectFiles(
     root: string,
     patterns: string[]
@@ -0,0 +1,135 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { execaGit } from './git';
+import { GitExecutor } from './types';
+
+export interface CacheEntry {
+  url: string;
+  path: string;
+  size: number;
+  lastUsed: Date | null;
+}
+
+export function defaultCacheDir(): string {
+  if (process.env.BOILIT_CACHE_DIR) return process.env.BOILIT_CACHE_DIR;
+  if (process.platform === 'win32') {
+    return path.join(process.env.LOCALAPPDATA || path.join(os.homedir(), 'AppData', 'Local'), 'boilit', 'Cache');
+  }
+  if (process.platform === 'darwin') {
+    return path.join(os.homedir(), 'Library', 'Caches', 'boilit');
+  }
+  return path.join(process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache'), 'boilit');
+}
+
+/**
+ * Bare mirrors of source repositories, keyed by origin URL. Each mirror is updated at most once
+ * per process, and never in offline mode. Git runs through `git`, like the rest of BoilIt.
+ */
+export class RepoCache {
+  private updated = new Set<string>();
+
+  constructor(
+    private readonly root: string = defaultCacheDir(),
+    private readonly offline = false,
+    private readonly git: GitExecutor = execaGit
+  ) {}
+
+  public get reposDir(): string {
+    return path.join(this.root, 'repos');
+  }
+
+  public pathFor(url: string): string {
+    const key = crypto.createHash('sha256').update(url).digest('hex').slice(0, 16);
+    return path.join(this.reposDir, `${key}.git`);
+  }
+
+  /**
+   * Returns the path of an up-to-date mirror of `url`, cloning it on first use.
+   */
+  public async ensure(url: string): Promise<string> {
+    const dir = this.pathFor(url);
+
+    if (await fs.pathExists(dir)) {
+      if (!this.offline && !this.updated.has(dir)) {
+        try {
+          await this.git(['-C', dir, 'remote', 'update', '--prune'], { stdio: 'pipe' });
+        } catch (error: any) {
+          throw new Error(`Failed to update cached mirror of ${url}: ${error.message}. Use --offline to work from the cache.`);
+        }
+      }
+    } else {
+      if (this.offline) {
+        throw new Error(`${url} is not in the cache. Run once without --offline to download it.`);
+      }
+      await fs.ensureDir(this.reposDir);
+      try {
+        await this.git(['clone', '--mirror', url, dir], { stdio: 'pipe' });
+      } catch (error: any) {
+        await fs.remove(dir);
+        throw new Error(`Failed to mirror ${url}: ${error.message}`);
+      }
+    }
+
+    this.updated.add(dir);
+    await this.git(['-C', dir, 'config', 'boilit.lastUsed', String(Date.now())], { stdio: 'pipe' });
+    return dir;
+  }
+
+  public async list(): Promise<CacheEntry[]> {
+    if (!(await fs.pathExists(this.reposDir))) return [];
+
+    const entries: CacheEntry[] = [];
+
+    for (const name of await fs.readdir(this.reposDir)) {
+      const dir = path.join(this.reposDir, name);
+      const read = async (key: string) => {
+        try {
+          const { stdout } = await this.git(['-C', dir, 'config', '--get', key], { stdio: 'pipe' });
+          return (stdout || '').trim();
+        } catch {
+          return '';
+        }
+      };
+      const lastUsed = Number(await read('boilit.lastUsed'));
+      entries.push({
+        url: (await read('remote.origin.url')) || '(unknown)',
+        path: dir,
+        size: await this.sizeOf(dir),
+        lastUsed: lastUsed ? new Date(lastUsed) : null,
+      });
+    }
+
+    return entries;
+  }
+
+  /**
+   * Removes mirrors that have not been used for `maxAgeDays` days.
+   */
+  public async prune(maxAgeDays: number, now = Date.now()): Promise<CacheEntry[]> {
+    const cutoff = now - maxAgeDays * 24 * 60 * 60 * 1000;
+    const stale = (await this.list()).filter((e) => !e.lastUsed || e.lastUsed.getTime() < cutoff);
+    for (const entry of stale) {
+      await fs.remove(entry.path);
+    }
+    return stale;
+  }
+
+  public async clear(): Promise<number> {
+    const count = (await this.list()).length;
+    await fs.remove(this.reposDir);
+    return count;
+  }
+
+  private async sizeOf(target: string): Promise<number> {
+    const stat = await fs.lstat(target);
+    if (!stat.isDirectory()) return stat.size;
+
+    let total = 0;
+    for (const entry of await fs.readdir(target)) {
+      total += await this.sizeOf(path.join(target, entry));
+    }
+    return total;
+  }
+}
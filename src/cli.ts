@@ -1,23 +1,534 @@
 #!/usr/bin/env node
-import { Command } from 'commander';
+import { Command, InvalidArgumentError, Option } from 'commander';
 import { BoilIt } from './boilit';
 import { version } from '../package.json';
 import chalk from 'chalk';
-import { OperationCancelledError, isOperationCancelled } from './errors';
+import toml from '@iarna/toml';
+import { ConflictError, OperationCancelledError, SessionPausedError, isOperationCancelled } from './errors';
+import {
+  APPLY_MODES,
+  ApplyReport,
+  BoilItConfig,
+  BoilItEvent,
+  BoilItOptions,
+  CONFLICT_STRATEGIES,
+  ConfigShowOptions,
+  DriftOptions,
+  DriftReport,
+  Dependency,
+  Module,
+  ON_EXISTING_POLICIES,
+  OutdatedOptions,
+  OutdatedReport,
+  RemoveOptions,
+  RemoveReport,
+  SessionStatus,
+  SyncOptions,
+  SyncReport,
+  UpdateOptions,
+  UpdateReport,
+  UseOptions,
+} from './types';
+import { RepoCache } from './cache';
+import { SEMVER_REF_PREFIX } from './versions';
 
-type UseOptions = { path?: string; ref?: string };
-type Deps = { createBoilIt?: () => BoilIt };
+type ListOptions = { json?: boolean; ref?: string; cache?: boolean; offline?: boolean };
+type ConfigShowCliOptions = ConfigShowOptions & JsonOption;
+type JsonOption = { json?: boolean };
+type StatusOptions = DriftOptions & JsonOption;
+type Deps = { createBoilIt?: (options?: BoilItOptions) => BoilIt; createCache?: () => RepoCache };
 
-export async function handleUse(repo: string, modules: string[], options: UseOptions, deps: Deps = {}): Promise<number> {
+// Distinct from generic failures so pipelines can tell an unresolved conflict apart
+export const CONFLICT_EXIT_CODE = 3;
+// 'boilit status' found drift; errors while checking still exit with 1
+export const DRIFT_EXIT_CODE = 4;
+
+function reportConflict(error: ConflictError): number {
+  console.error(chalk.red(`Error: ${error.message}`));
+  console.error(`  module: ${error.module}`);
+  console.error(`  commit: ${error.sha}`);
+  for (const file of error.files) console.error(`  file:   ${file}`);
+  return CONFLICT_EXIT_CODE;
+}
+
+export function writeEvent(event: BoilItEvent) {
+  process.stdout.write(JSON.stringify(event) + '\n');
+}
+
+function createApplier(deps: Deps, json?: boolean): BoilIt {
+  const options: BoilItOptions = json ? { onEvent: writeEvent, quiet: true } : {};
+  return deps.createBoilIt ? deps.createBoilIt(options) : new BoilIt(options);
+}
+
+function applyExitCode(error: unknown): number {
+  if (isOperationCancelled(error)) return 0;
+  if (error instanceof ConflictError) return CONFLICT_EXIT_CODE;
+  return 1;
+}
+
+function handleApplyError(error: unknown, json?: boolean): number {
+  const code = applyExitCode(error);
+  const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+
+  if (json) {
+    writeEvent({ type: 'failed', code, error: { name: error instanceof Error ? error.name : 'Error', message: errorMessage } });
+    return code;
+  }
+  if (isOperationCancelled(error)) {
+    console.log(chalk.yellow('Operation cancelled by user.'));
+    return code;
+  }
+  if (error instanceof SessionPausedError) {
+    return code;
+  }
+  if (error instanceof ConflictError) {
+    return reportConflict(error);
+  }
+  console.error(chalk.red(`Error: ${errorMessage}`));
+  return code;
+}
+
+function reportApplied(report: ApplyReport, json?: boolean) {
+  if (json) {
+    writeEvent({ type: 'done', code: 0, report });
+  } else if (report?.dryRun) {
+    console.log(formatPlan(report));
+  }
+}
+
+export async function handleUse(
+  repo: string,
+  modules: string[],
+  options: UseOptions & JsonOption,
+  deps: Deps = {}
+): Promise<number> {
+  const { json, ...useOptions } = options;
+  try {
+    const boilit = createApplier(deps, json);
+    // Prompts would interleave with the event stream
+    const report = await boilit.use(repo, modules, json ? { ...useOptions, nonInteractive: true } : useOptions);
+    reportApplied(report, json);
+    return 0;
+  } catch (error: unknown) {
+    return handleApplyError(error, json);
+  }
+}
+
+export async function handleResume(action: 'continue' | 'skip', options: JsonOption = {}, deps: Deps = {}): Promise<number> {
+  try {
+    const boilit = createApplier(deps, options.json);
+    const report = await boilit.resume(action);
+    reportApplied(report, options.json);
+    return 0;
+  } catch (error: unknown) {
+    return handleApplyError(error, options.json);
+  }
+}
+
+export async function handleAbort(deps: Deps = {}): Promise<number> {
+  try {
+    const boilit = (deps.createBoilIt ? deps.createBoilIt() : new BoilIt());
+    const session = await boilit.abort();
+    console.log(chalk.yellow(`Aborted applying ${session.repo}; ${session.targetPath} was not modified.`));
+    return 0;
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    console.error(chalk.red(`Error: ${errorMessage}`));
+    return 1;
+  }
+}
+
+export function formatUpdate(report: UpdateReport): string {
+  if (report.modules.length === 0) return chalk.green('All modules are up to date.');
+
+  const lines = [chalk.cyan('Module updates:')];
+  for (const u of report.modules) {
+    lines.push(`  ${u.module} ${chalk.gray(u.ref)}: ${u.commits.length} commit${u.commits.length === 1 ? '' : 's'} ${chalk.gray(`(${u.from.slice(0, 7)} -> ${u.to.slice(0, 7)})`)}`);
+  }
+  if (report.skipped) {
+    lines.push(chalk.yellow('Merge skipped; no files were changed.'));
+    return lines.join('\n');
+  }
+
+  const marks = { added: chalk.green('+'), updated: chalk.yellow('~'), deleted: chalk.red('-') };
+  lines.push(report.files.length > 0 ? chalk.cyan('Files:') : chalk.gray('The project already had these changes.'));
+  for (const file of report.files) lines.push(`  ${marks[file.status]} ${file.path}`);
+  return lines.join('\n');
+}
+
+export async function handleUpdate(modules: string[], options: UpdateOptions = {}, deps: Deps = {}): Promise<number> {
+  try {
+    const boilit = (deps.createBoilIt ? deps.createBoilIt() : new BoilIt());
+    console.log(formatUpdate(await boilit.update(modules, options)));
+    return 0;
+  } catch (error: unknown) {
+    return handleApplyError(error);
+  }
+}
+
+export function formatSync(report: SyncReport): string {
+  const lines: string[] = [];
+  for (const { source, applied, report: plan } of report.sources) {
+    if (applied.length === 0) {
+      lines.push(chalk.gray(`= ${source}: up to date`));
+    } else if (plan?.dryRun) {
+      lines.push(chalk.bold(`${source}: would apply ${applied.join(', ')}`), formatPlan(plan), '');
+    } else {
+      lines.push(chalk.green(`✔ ${source}: applied ${applied.join(', ')}`));
+    }
+  }
+  if (report.sources.length === 0) lines.push(chalk.gray('No sources in boilit.project.toml'));
+  return lines.join('\n').trimEnd();
+}
+
+export async function handleSync(options: SyncOptions = {}, deps: Deps = {}): Promise<number> {
+  try {
+    const boilit = (deps.createBoilIt ? deps.createBoilIt() : new BoilIt());
+    console.log(formatSync(await boilit.sync(options)));
+    return 0;
+  } catch (error: unknown) {
+    return handleApplyError(error);
+  }
+}
+
+export function formatRemoval(report: RemoveReport): string {
+  const lines = [chalk.green(`Removed module '${report.module}' (${report.removed.length} file${report.removed.length === 1 ? '' : 's'} deleted)`)];
+  for (const file of report.removed) lines.push(`  ${chalk.red('-')} ${file}`);
+  if (report.modified.length > 0) {
+    lines.push(chalk.yellow('Kept files modified since they were applied:'));
+    for (const file of report.modified) lines.push(`  ${file}`);
+  }
+  if (report.shared.length > 0) {
+    lines.push(chalk.yellow('Kept files also provided by other modules:'));
+    for (const file of report.shared) lines.push(`  ${file}`);
+  }
+  if (report.missing.length > 0) {
+    lines.push(chalk.gray('Already gone from the project:'));
+    for (const file of report.missing) lines.push(`  ${file}`);
+  }
+  return lines.join('\n');
+}
+
+export async function handleRemove(module: string, options: RemoveOptions = {}, deps: Deps = {}): Promise<number> {
   try {
     const boilit = (deps.createBoilIt ? deps.createBoilIt() : new BoilIt());
-    await boilit.use(repo, modules, options);
+    console.log(formatRemoval(await boilit.remove(module, options)));
     return 0;
   } catch (error: unknown) {
-    if (isOperationCancelled(error)) {
-      console.log(chalk.yellow('Operation cancelled by user.'));
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    console.error(chalk.red(`Error: ${errorMessage}`));
+    return 1;
+  }
+}
+
+export function formatSession({ session, repoDir, conflictedFiles }: SessionStatus): string {
+  const { current, order } = session;
+  const ref = current.refs[current.refIndex];
+  const sha = ref?.commits[current.shaIndex];
+  const done = order.slice(0, order.indexOf(current.module));
+  const remaining = order.slice(order.indexOf(current.module) + 1);
+  const lines: string[] = [];
+
+  lines.push(chalk.bold('BoilIt session in progress'));
+  lines.push(`  Source:    ${session.repo}${session.ref ? `#${session.ref}` : ''}`);
+  lines.push(`  Target:    ${session.targetPath}`);
+  lines.push(`  Applied:   ${done.length > 0 ? done.join(', ') : '-'}`);
+  lines.push(
+    `  Current:   ${current.module}` +
+      (ref ? `, ref ${ref.ref}, commit ${sha ? sha.slice(0, 12) : '-'} (${current.shaIndex + 1}/${ref.commits.length})` : '')
+  );
+  lines.push(`  Remaining: ${remaining.length > 0 ? remaining.join(', ') : '-'}`);
+  lines.push('', `Temp repository: ${repoDir}`);
+  if (conflictedFiles.length > 0) {
+    lines.push(chalk.yellow('Conflicted files:'));
+    for (const file of conflictedFiles) lines.push(`  ${file}`);
+  } else {
+    lines.push(chalk.green('No conflicted files left.'));
+  }
+  lines.push(
+    '',
+    "Run 'boilit continue' once resolved, 'boilit skip' to drop this commit or 'boilit abort' to stop."
+  );
+  return lines.join('\n');
+}
+
+export function formatDrift(report: DriftReport): string {
+  if (!report.drifted) {
+    return chalk.green('Up to date: the target matches boilit.lock and no module ref has moved upstream.');
+  }
+
+  const lines: string[] = [];
+  if (report.files.length > 0) {
+    lines.push(chalk.yellow('Files changed since they were applied:'));
+    for (const file of report.files) {
+      const label = file.status === 'deleted' ? chalk.red('deleted: ') : chalk.yellow('modified:');
+      lines.push(`  ${label} ${file.path} ${chalk.gray(`(${file.modules.join(', ')})`)}`);
+    }
+  }
+  if (report.upstream.length > 0) {
+    lines.push(chalk.yellow('Module refs with new commits upstream:'));
+    for (const u of report.upstream) {
+      const change = u.behind === null
+        ? 'history rewritten'
+        : `${u.behind} new commit${u.behind === 1 ? '' : 's'}`;
+      lines.push(`  ${u.module} ${chalk.gray(u.ref)}: ${change} ${chalk.gray(`(${u.applied.slice(0, 7)} -> ${u.latest.slice(0, 7)})`)}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Shows the conflict session in progress or, when there is none, how the target and the
+ * module refs drifted from boilit.lock.
+ */
+export async function handleStatus(options: StatusOptions = {}, deps: Deps = {}): Promise<number> {
+  try {
+    const boilitOptions: BoilItOptions = options.json ? { quiet: true } : {};
+    const boilit = (deps.createBoilIt ? deps.createBoilIt(boilitOptions) : new BoilIt(boilitOptions));
+    const status = await boilit.status();
+    if (status) {
+      console.log(options.json ? JSON.stringify({ session: status }, null, 2) : formatSession(status));
       return 0;
     }
+
+    const report = await boilit.drift({ path: options.path, cache: options.cache, offline: options.offline });
+    console.log(options.json ? JSON.stringify(report, null, 2) : formatDrift(report));
+    return report.drifted ? DRIFT_EXIT_CODE : 0;
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    console.error(chalk.red(`Error: ${errorMessage}`));
+    return 1;
+  }
+}
+
+export function formatOutdated(report: OutdatedReport): string {
+  if (report.refs.length === 0) {
+    return chalk.green('Up to date: no newer version tag for the modules applied from a version range.');
+  }
+
+  const headers = ['MODULE', 'RANGE', 'CURRENT', 'WANTED', 'LATEST'];
+  const rows = report.refs.map((r) => [r.module, r.range, r.current, r.wanted ?? '-', r.latest ?? '-']);
+  const widths = headers.map((h, i) => Math.max(h.length, ...rows.map((row) => row[i].length)));
+  const format = (cells: string[]) => cells.map((c, i) => c.padEnd(widths[i])).join('  ').trimEnd();
+  const lines = [chalk.bold(format(headers)), ...rows.map(format)];
+
+  const outside = report.refs.filter((r) => r.latest !== r.wanted);
+  if (outside.length > 0) {
+    lines.push(
+      '',
+      chalk.yellow(
+        `Newer versions outside the range: ${outside.map((r) => `${r.module} ${r.latest}`).join(', ')}. ` +
+          'Widen the range in boilit.toml to use them.'
+      )
+    );
+  }
+  return lines.join('\n');
+}
+
+export async function handleOutdated(options: OutdatedOptions & JsonOption = {}, deps: Deps = {}): Promise<number> {
+  try {
+    const boilitOptions: BoilItOptions = options.json ? { quiet: true } : {};
+    const boilit = (deps.createBoilIt ? deps.createBoilIt(boilitOptions) : new BoilIt(boilitOptions));
+    const report = await boilit.outdated({ path: options.path, cache: options.cache, offline: options.offline });
+    console.log(options.json ? JSON.stringify(report, null, 2) : formatOutdated(report));
+    return 0;
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    console.error(chalk.red(`Error: ${errorMessage}`));
+    return 1;
+  }
+}
+
+export function collectVar(value: string, previous: Record<string, string> = {}): Record<string, string> {
+  const index = value.indexOf('=');
+  if (index <= 0) {
+    throw new InvalidArgumentError(`Expected key=value, got '${value}'.`);
+  }
+  return { ...previous, [value.slice(0, index)]: value.slice(index + 1) };
+}
+
+export function formatPlan(report: ApplyReport): string {
+  const lines: string[] = [];
+  const marks = {
+    new: chalk.green('+ new       '),
+    identical: chalk.gray('= identical '),
+    changed: chalk.yellow('~ changed   '),
+  };
+  // Other repositories that modules depend on are applied first
+  const plans: Array<{ plan: ApplyReport; from: string }> = [
+    ...(report.externals || []).map((plan) => ({
+      plan,
+      from: chalk.gray(` (${plan.source}${plan.ref ? `#${plan.ref}` : ''})`),
+    })),
+    { plan: report, from: '' },
+  ];
+  const files = plans.flatMap(({ plan }) => plan.files);
+  const hooks = plans.flatMap(({ plan }) => plan.hooks || []);
+
+  lines.push(chalk.bold('Apply order:'));
+  plans
+    .flatMap(({ plan, from }) => plan.order.map((name) => `${name}${from}`))
+    .forEach((name, i) => lines.push(`  ${i + 1}. ${name}`));
+
+  lines.push('', chalk.bold('Commits to cherry-pick:'));
+  for (const { plan, from } of plans) {
+    for (const name of plan.order) {
+      lines.push(`  ${name}${from}`);
+      const refs = plan.modules[name] || [];
+      if (refs.length === 0) lines.push(chalk.gray('    (no refs)'));
+      for (const { ref, origin, range, commits } of refs) {
+        lines.push(`    ${ref} ${chalk.gray(`(${range ? `${range}, ` : ''}${origin})`)}`);
+        if (commits.length === 0) lines.push(chalk.gray('      (nothing to apply)'));
+        for (const { sha, subject } of commits) {
+          lines.push(`      ${sha.slice(0, 12)} ${subject}`);
+        }
+      }
+    }
+  }
+
+  if (hooks.length > 0) {
+    lines.push('', chalk.bold('Hooks (not run):'));
+    for (const hook of hooks) {
+      lines.push(`  [${hook.module}] ${hook.stage}: ${hook.command}`);
+    }
+  }
+
+  lines.push('', chalk.bold('Files:'));
+  if (files.length === 0) lines.push(chalk.gray('  (no files)'));
+  for (const file of files) {
+    lines.push(`  ${marks[file.status]}${file.path}`);
+  }
+
+  const count = (status: string) => files.filter((f) => f.status === status).length;
+  lines.push(
+    '',
+    `${count('new')} new, ${count('identical')} identical, ${count('changed')} changed. Dry run: the target directory was not modified.`
+  );
+  return lines.join('\n');
+}
+
+export function formatModuleTable(config: BoilItConfig): string {
+  const join = (values?: string[]) => (values && values.length > 0 ? values.join(', ') : '-');
+  const dependency = (dep: string | Dependency) => {
+    if (typeof dep === 'string') return dep;
+    return dep.repo ? `${dep.module} (${dep.repo}${dep.ref ? `#${dep.ref}` : ''})` : dep.module;
+  };
+  const options = (mod: Module) =>
+    Object.entries(mod.options || {}).map(([name, option]) => `${name}=${Object.keys(option.choices).join('|')}`);
+  const headers = ['MODULE', 'DESCRIPTION', 'REFS', 'OPTIONS', 'DEPENDENCIES', 'ORIGIN', 'PATH', 'FILES', 'IGNORE'];
+  const rows = Object.entries(config.modules).map(([name, mod]) => [
+    name,
+    mod.description || '-',
+    join(mod.version !== undefined ? [`${SEMVER_REF_PREFIX}${mod.version}`] : mod.refs),
+    join(options(mod)),
+    join(mod.dependencies?.map(dependency)),
+    mod.origin || '-',
+    mod.path || '-',
+    join(mod.files),
+    join(mod.ignore),
+  ]);
+
+  const widths = headers.map((h, i) => Math.max(h.length, ...rows.map((r) => r[i].length)));
+  const format = (cells: string[]) => cells.map((c, i) => c.padEnd(widths[i])).join('  ').trimEnd();
+
+  return [chalk.bold(format(headers)), ...rows.map(format)].join('\n');
+}
+
+export async function handleList(repo: string, options: ListOptions, deps: Deps = {}): Promise<number> {
+  try {
+    const boilit = (deps.createBoilIt ? deps.createBoilIt() : new BoilIt());
+    const config = await boilit.list(repo, { ref: options.ref, cache: options.cache, offline: options.offline });
+
+    if (options.json) {
+      console.log(JSON.stringify(config, null, 2));
+      return 0;
+    }
+
+    console.log(chalk.cyan(`${config.name}${config.description ? ` - ${config.description}` : ''}`));
+    if (config.default) {
+      console.log(`Default origin: ${config.default.origin}`);
+      if (config.default.files) console.log(`Default files: ${config.default.files.join(', ')}`);
+      if (config.default.ignore) console.log(`Default ignore: ${config.default.ignore.join(', ')}`);
+      if (config.default.scope) console.log(`Default scope: ${config.default.scope}`);
+    }
+    console.log('');
+    if (Object.keys(config.modules).length === 0) {
+      console.log(chalk.yellow('No modules are defined in boilit.toml'));
+    } else {
+      console.log(formatModuleTable(config));
+    }
+    return 0;
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    console.error(chalk.red(`Error: ${errorMessage}`));
+    return 1;
+  }
+}
+
+export async function handleConfigShow(repo: string, options: ConfigShowCliOptions = {}, deps: Deps = {}): Promise<number> {
+  try {
+    const boilit = deps.createBoilIt ? deps.createBoilIt() : new BoilIt();
+    const { json, ...showOptions } = options;
+    const config = await boilit.showConfig(repo, showOptions);
+    console.log(json ? JSON.stringify(config, null, 2) : toml.stringify(config as toml.JsonMap).trimEnd());
+    return 0;
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    console.error(chalk.red(`Error: ${errorMessage}`));
+    return 1;
+  }
+}
+
+export function formatSize(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
+
+export async function handleCache(
+  action: 'ls' | 'prune' | 'clear',
+  options: { maxAge?: string } = {},
+  deps: Deps = {}
+): Promise<number> {
+  try {
+    const cache = deps.createCache ? deps.createCache() : new RepoCache();
+
+    if (action === 'ls') {
+      const entries = await cache.list();
+      if (entries.length === 0) {
+        console.log(chalk.gray('The cache is empty.'));
+        return 0;
+      }
+      for (const entry of entries) {
+        const lastUsed = entry.lastUsed ? entry.lastUsed.toISOString() : 'never';
+        console.log(`${entry.url}  ${chalk.gray(`${formatSize(entry.size)}, last used ${lastUsed}`)}`);
+        console.log(chalk.gray(`  ${entry.path}`));
+      }
+      return 0;
+    }
+
+    if (action === 'prune') {
+      const days = Number(options.maxAge ?? 30);
+      if (!Number.isFinite(days) || days < 0) {
+        throw new Error(`Invalid --max-age '${options.maxAge}': expected a number of days`);
+      }
+      const removed = await cache.prune(days);
+      for (const entry of removed) {
+        console.log(`Removed ${entry.url}`);
+      }
+      console.log(chalk.green(`Pruned ${removed.length} cached repositor${removed.length === 1 ? 'y' : 'ies'}.`));
+      return 0;
+    }
+
+    const count = await cache.clear();
+    console.log(chalk.green(`Removed ${count} cached repositor${count === 1 ? 'y' : 'ies'}.`));
+    return 0;
+  } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
     console.error(chalk.red(`Error: ${errorMessage}`));
     return 1;
@@ -36,11 +547,189 @@ export async function run(argv: string[]) {
     .command('use <repo> [modules...]')
     .description('Use modules from a repository')
     .option('--path <path>', 'Path where to initialize the modules', '.')
+    .option('--all', 'Apply every module when no modules are named, without asking')
+    .option('--ref <ref>', 'Branch, tag or commit of the repository that provides boilit.toml (or use <repo>#<ref>)')
+    .option('--frozen', 'Replay the commits recorded in boilit.lock instead of resolving refs')
+    .option('--dry-run', 'Show the apply order, commits and files that would be written without touching the target')
+    .addOption(
+      new Option('--on-existing <policy>', 'How to handle target files that already exist with different content')
+        .choices([...ON_EXISTING_POLICIES])
+        .default('fail')
+    )
+    .option('--var <key=value>', 'Set a template variable (repeatable)', collectVar)
+    .option('--opt <module.option=choice>', 'Choose a value for a module option (repeatable)', collectVar)
+    .option('--allow-hooks', 'Run module hooks without asking for confirmation')
+    .option('--include-dirty', 'For local repositories, include uncommitted working-tree changes')
+    .option('--no-cache', 'Clone directly instead of going through the local repository cache')
+    .option('--offline', 'Only use repositories that are already cached')
+    .option('--non-interactive', 'Never prompt (the default when stdin is not a terminal)')
+    .addOption(
+      new Option('--conflict-strategy <strategy>', 'Resolve cherry-pick conflicts automatically instead of prompting')
+        .choices([...CONFLICT_STRATEGIES])
+    )
+    .addOption(
+      new Option('--mode <mode>', 'copy writes the files; commit also commits each module into the target git repository')
+        .choices([...APPLY_MODES])
+        .default('copy')
+    )
+    .option('--preserve-history', 'With --mode=commit, make one commit per source commit instead of one per module')
+    .option('--allow-dirty', 'With --mode=commit, run even when the target has uncommitted changes')
+    .option('--json', 'Print progress as newline-delimited JSON events on stdout')
     .action(async (repo, modules, options) => {
-      const code = await handleUse(repo, modules, options);
+      const { var: vars, opt: opts, ...rest } = options;
+      const code = await handleUse(repo, modules, { ...rest, vars, opts });
       process.exit(code);
     });
 
+  program
+    .command('list <repo>')
+    .description('List the modules available in a repository')
+    .option('--ref <ref>', 'Branch, tag or commit of the repository that provides boilit.toml (or use <repo>#<ref>)')
+    .option('--json', 'Print the parsed configuration as JSON')
+    .option('--no-cache', 'Clone directly instead of going through the local repository cache')
+    .option('--offline', 'Only use repositories that are already cached')
+    .action(async (repo, options) => {
+      const code = await handleList(repo, options);
+      process.exit(code);
+    });
+
+  program
+    .command('status')
+    .description('Show the conflict session in progress, or what changed since modules were applied')
+    .option('--path <path>', 'Target directory that contains boilit.lock', '.')
+    .option('--json', 'Print the report as JSON')
+    .option('--no-cache', 'Clone directly instead of going through the local repository cache')
+    .option('--offline', 'Only use repositories that are already cached')
+    .action(async (options) => {
+      process.exit(await handleStatus(options));
+    });
+
+  program
+    .command('outdated')
+    .description('Show modules applied from a version range that have newer version tags upstream')
+    .option('--path <path>', 'Target directory that contains boilit.lock', '.')
+    .option('--json', 'Print the report as JSON')
+    .option('--no-cache', 'Clone directly instead of going through the local repository cache')
+    .option('--offline', 'Only use repositories that are already cached')
+    .action(async (options) => {
+      process.exit(await handleOutdated(options));
+    });
+
+  program
+    .command('continue')
+    .description('Commit the resolved conflict and resume applying modules')
+    .option('--json', 'Print progress as newline-delimited JSON events on stdout')
+    .action(async (options) => {
+      process.exit(await handleResume('continue', options));
+    });
+
+  program
+    .command('skip')
+    .description('Drop the conflicting commit and resume applying modules')
+    .option('--json', 'Print progress as newline-delimited JSON events on stdout')
+    .action(async (options) => {
+      process.exit(await handleResume('skip', options));
+    });
+
+  program
+    .command('abort')
+    .description('Discard the conflict session without touching the target directory')
+    .action(async () => {
+      process.exit(await handleAbort());
+    });
+
+  program
+    .command('update [modules...]')
+    .description('Merge the commits added upstream to applied modules into the project')
+    .option('--path <path>', 'Target directory that contains boilit.lock', '.')
+    .option('--source <url>', 'Source repository to update, when boilit.lock records several')
+    .option('--no-cache', 'Clone directly instead of going through the local repository cache')
+    .option('--offline', 'Only use repositories that are already cached')
+    .option('--non-interactive', 'Never prompt (the default when stdin is not a terminal)')
+    .addOption(
+      new Option('--conflict-strategy <strategy>', 'Resolve conflicts automatically instead of prompting')
+        .choices([...CONFLICT_STRATEGIES])
+    )
+    .action(async (modules, options) => {
+      process.exit(await handleUpdate(modules, options));
+    });
+
+  program
+    .command('sync')
+    .description('Apply the modules listed in boilit.project.toml that are not applied yet')
+    .option('--path <path>', 'Project directory that contains boilit.project.toml', '.')
+    .option('--dry-run', 'Show what each source would apply without touching the project')
+    .addOption(
+      new Option('--on-existing <policy>', 'How to handle target files that already exist with different content')
+        .choices([...ON_EXISTING_POLICIES])
+        .default('fail')
+    )
+    .option('--allow-hooks', 'Run module hooks without asking for confirmation')
+    .option('--no-cache', 'Clone directly instead of going through the local repository cache')
+    .option('--offline', 'Only use repositories that are already cached')
+    .option('--non-interactive', 'Never prompt (the default when stdin is not a terminal)')
+    .addOption(
+      new Option('--conflict-strategy <strategy>', 'Resolve cherry-pick conflicts automatically instead of prompting')
+        .choices([...CONFLICT_STRATEGIES])
+    )
+    .addOption(
+      new Option('--mode <mode>', 'copy writes the files; commit also commits each module into the target git repository')
+        .choices([...APPLY_MODES])
+        .default('copy')
+    )
+    .option('--preserve-history', 'With --mode=commit, make one commit per source commit instead of one per module')
+    .option('--allow-dirty', 'With --mode=commit, run even when the target has uncommitted changes')
+    .action(async (options) => {
+      process.exit(await handleSync(options));
+    });
+
+  program
+    .command('remove <module>')
+    .description('Delete the unmodified files of an applied module and drop it from boilit.lock')
+    .option('--path <path>', 'Target directory the module was applied to', '.')
+    .option('--source <url>', 'Source repository to remove the module from, when several provide it')
+    .action(async (module, options) => {
+      process.exit(await handleRemove(module, options));
+    });
+
+  const config = program.command('config').description('Inspect the boilit.toml of a repository');
+
+  config
+    .command('show <repo>')
+    .description('Print the boilit.toml of a repository')
+    .option('--resolved', "Merge the configs listed in 'extends' into the result")
+    .option('--ref <ref>', 'Branch, tag or commit of the repository that provides boilit.toml (or use <repo>#<ref>)')
+    .option('--json', 'Print JSON instead of TOML')
+    .option('--no-cache', 'Clone directly instead of going through the local repository cache')
+    .option('--offline', 'Only use repositories that are already cached')
+    .action(async (repo, options) => {
+      process.exit(await handleConfigShow(repo, options));
+    });
+
+  const cache = program.command('cache').description('Manage the local repository cache');
+
+  cache
+    .command('ls')
+    .description('List cached repositories')
+    .action(async () => {
+      process.exit(await handleCache('ls'));
+    });
+
+  cache
+    .command('prune')
+    .description('Remove cached repositories that have not been used recently')
+    .option('--max-age <days>', 'Remove entries unused for this many days', '30')
+    .action(async (options) => {
+      process.exit(await handleCache('prune', options));
+    });
+
+  cache
+    .command('clear')
+    .description('Remove every cached repository')
+    .action(async () => {
+      process.exit(await handleCache('clear'));
+    });
+
   await program.parseAsync(argv);
 }
 
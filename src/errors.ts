@@ -5,6 +5,42 @@ export class OperationCancelledError extends Error {
   }
 }
 
+export class HookFailedError extends Error {
+  constructor(
+    public readonly module: string,
+    public readonly command: string,
+    public readonly exitCode?: number
+  ) {
+    super(
+      `Hook '${command}' of module '${module}' failed` +
+        (exitCode !== undefined ? ` with exit code ${exitCode}` : '')
+    );
+    this.name = 'HookFailedError';
+  }
+}
+
+export class ConflictError extends Error {
+  constructor(
+    public readonly module: string,
+    public readonly sha: string,
+    public readonly files: string[]
+  ) {
+    super(
+      `Conflict in module '${module}' while cherry-picking ${sha}` +
+        (files.length > 0 ? `: ${files.join(', ')}` : '') +
+        '. Re-run interactively or with --conflict-strategy=ours|theirs|skip-commit.'
+    );
+    this.name = 'ConflictError';
+  }
+}
+
+export class SessionPausedError extends Error {
+  constructor(public readonly repoDir: string) {
+    super(`Paused on a conflict in ${repoDir}. Resolve it, then run 'boilit continue' (or 'boilit skip' / 'boilit abort').`);
+    this.name = 'SessionPausedError';
+  }
+}
+
 export function isOperationCancelled(e: unknown): e is OperationCancelledError {
   return e instanceof OperationCancelledError || (!!e && (e as any).name === 'OperationCancelledError');
 }
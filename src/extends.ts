@@ -0,0 +1,65 @@
+/** A boilit.toml as parsed, before it is validated. */
+export type RawConfig = Record<string, unknown>;
+
+/** Narrows a parsed value to a table, or `undefined` when it is something else. */
+export const asTable = (value: unknown): RawConfig | undefined =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as RawConfig) : undefined;
+
+const compact = (table: RawConfig): RawConfig =>
+  Object.fromEntries(Object.entries(table).filter(([, value]) => value !== undefined));
+
+const mergeList = (base: unknown, own: unknown, replace: boolean) =>
+  !replace && Array.isArray(base) && Array.isArray(own) ? [...new Set([...base, ...own])] : own ?? base;
+
+/**
+ * Merges `[default]` of a child config over its parent's. Arrays (`files`, `ignore` and the hook
+ * lists) are combined unless the child sets `merge = "replace"`; other keys of the child win.
+ */
+function mergeDefaults(baseValue: unknown, ownValue: unknown): unknown {
+  const base = asTable(baseValue);
+  const own = asTable(ownValue);
+  if (!base || !own) return ownValue ?? baseValue;
+
+  const replace = own.merge === 'replace';
+  const merged: RawConfig = { ...base, ...own };
+  delete merged.merge;
+  merged.files = mergeList(base.files, own.files, replace);
+  merged.ignore = mergeList(base.ignore, own.ignore, replace);
+  if (asTable(base.variables) && asTable(own.variables)) {
+    merged.variables = { ...asTable(base.variables), ...asTable(own.variables) };
+  }
+  const baseHooks = asTable(base.hooks);
+  const ownHooks = asTable(own.hooks);
+  if (baseHooks && ownHooks) {
+    merged.hooks = compact({
+      preApply: mergeList(baseHooks.preApply, ownHooks.preApply, replace),
+      postApply: mergeList(baseHooks.postApply, ownHooks.postApply, replace),
+    });
+  }
+  return compact(merged);
+}
+
+/**
+ * Lays a child config over its parent: the child's keys win, modules of both are kept and a
+ * module defined in both takes the child's keys over the parent's. A child module that sets its
+ * own `refs` without an `origin` no longer uses the parent's origin.
+ */
+export function mergeConfigs(base: RawConfig, own: RawConfig): RawConfig {
+  const modules: RawConfig = { ...asTable(base.modules) };
+  for (const [name, module] of Object.entries(asTable(own.modules) ?? {})) {
+    const parent = asTable(modules[name]);
+    const child = asTable(module);
+    if (!parent || !child) {
+      modules[name] = module;
+      continue;
+    }
+    const merged = { ...parent, ...child };
+    if (child.refs && !child.origin) delete merged.origin;
+    modules[name] = merged;
+  }
+
+  const merged: RawConfig = { ...base, ...own, modules };
+  const defaults = mergeDefaults(base.default, own.default);
+  if (defaults !== undefined) merged.default = defaults;
+  return merged;
+}
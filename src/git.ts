@@ -0,0 +1,6 @@
+import { GitExecutor } from './types';
+
+export const execaGit: GitExecutor = async (args, options = {}) => {
+  const execa = (await import('execa')).default;
+  return execa('git', args, options);
+};
@@ -0,0 +1,14 @@
+export { BoilIt } from './boilit';
+export { execaGit } from './git';
+export { inquirerPrompter } from './prompter';
+export { RepoCache, defaultCacheDir } from './cache';
+export { LOCKFILE_NAME, readLockfile, findLockedSource } from './lockfile';
+export { PROJECT_MANIFEST_NAME, readProjectManifest } from './project';
+export {
+  OperationCancelledError,
+  HookFailedError,
+  ConflictError,
+  SessionPausedError,
+  isOperationCancelled,
+} from './errors';
+export * from './types';
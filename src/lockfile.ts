@@ -0,0 +1,88 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import { LockedSource, Lockfile, LockfileSchema } from './types';
+
+export const LOCKFILE_NAME = 'boilit.lock';
+
+export function emptyLockfile(): Lockfile {
+  return { version: 1, sources: [] };
+}
+
+export async function readLockfile(targetPath: string): Promise<Lockfile | null> {
+  const lockPath = path.join(targetPath, LOCKFILE_NAME);
+  if (!(await fs.pathExists(lockPath))) return null;
+
+  let data: unknown;
+  try {
+    data = JSON.parse(await fs.readFile(lockPath, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`Invalid JSON in ${LOCKFILE_NAME}: ${error.message}`);
+  }
+
+  try {
+    return LockfileSchema.parse(data);
+  } catch (error: any) {
+    throw new Error(`Invalid ${LOCKFILE_NAME}: ${error.message}`);
+  }
+}
+
+export async function writeLockfile(targetPath: string, lock: Lockfile): Promise<void> {
+  await fs.ensureDir(targetPath);
+  await fs.writeFile(path.join(targetPath, LOCKFILE_NAME), JSON.stringify(lock, null, 2) + '\n');
+}
+
+export async function hashFile(file: string): Promise<string> {
+  return crypto.createHash('sha256').update(await fs.readFile(file)).digest('hex');
+}
+
+export function findLockedSource(lock: Lockfile | null, url: string): LockedSource | undefined {
+  return lock?.sources.find((s) => s.url === url);
+}
+
+/**
+ * Updates the recorded hash of files that were just rewritten, in every module that lists
+ * them, so files shared with modules applied earlier do not look locally modified.
+ */
+export function refreshFileHashes(lock: Lockfile | null, hashes: Record<string, string>): Lockfile | null {
+  if (!lock) return lock;
+  const refresh = (files: Record<string, string>) =>
+    Object.fromEntries(Object.entries(files).map(([file, hash]) => [file, hashes[file] ?? hash]));
+
+  return {
+    ...lock,
+    sources: lock.sources.map((source) => ({
+      ...source,
+      modules: Object.fromEntries(
+        Object.entries(source.modules).map(([name, module]) => [
+          name,
+          module.files ? { ...module, files: refresh(module.files) } : module,
+        ])
+      ),
+    })),
+  };
+}
+
+/**
+ * Merges a freshly applied source into the lockfile. Modules applied in this run
+ * replace their previous entries; modules applied earlier from the same source are kept.
+ */
+export function upsertLockedSource(lock: Lockfile | null, source: LockedSource): Lockfile {
+  const next = lock ? { ...lock, sources: [...lock.sources] } : emptyLockfile();
+  const index = next.sources.findIndex((s) => s.url === source.url);
+
+  if (index === -1) {
+    next.sources.push(source);
+  } else {
+    const previous = next.sources[index];
+    next.sources[index] = {
+      ...source,
+      ...(previous.variables || source.variables
+        ? { variables: { ...previous.variables, ...source.variables } }
+        : {}),
+      modules: { ...previous.modules, ...source.modules },
+    };
+  }
+
+  return next;
+}
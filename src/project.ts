@@ -0,0 +1,37 @@
+import toml from '@iarna/toml';
+import fs from 'fs-extra';
+import path from 'path';
+import { ProjectManifest, ProjectManifestSchema, ProjectSource, ProjectUseOptions } from './types';
+
+export const PROJECT_MANIFEST_NAME = 'boilit.project.toml';
+
+export async function readProjectManifest(targetPath: string): Promise<ProjectManifest | null> {
+  const manifestPath = path.join(targetPath, PROJECT_MANIFEST_NAME);
+  if (!(await fs.pathExists(manifestPath))) return null;
+
+  let data: unknown;
+  try {
+    data = toml.parse(await fs.readFile(manifestPath, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`Invalid TOML syntax in ${PROJECT_MANIFEST_NAME}: ${error.message}`);
+  }
+
+  try {
+    return ProjectManifestSchema.parse(data);
+  } catch (error: any) {
+    throw new Error(`Invalid ${PROJECT_MANIFEST_NAME}: ${error.message}`);
+  }
+}
+
+/** The options of `boilit use` that a manifest source sets: its `vars` and each module's `path` and `vars`. */
+export function projectUseOptions(source: ProjectSource): ProjectUseOptions {
+  const paths: Record<string, string> = {};
+  const opts: Record<string, string> = {};
+  const moduleVars: Record<string, Record<string, string>> = {};
+  for (const [name, module] of Object.entries(source.modules)) {
+    if (module.path) paths[name] = module.path;
+    for (const [option, choice] of Object.entries(module.opts ?? {})) opts[`${name}.${option}`] = choice;
+    if (module.vars) moduleVars[name] = module.vars;
+  }
+  return { vars: source.vars, paths, opts, moduleVars };
+}
@@ -0,0 +1,24 @@
+import type { DistinctQuestion } from 'inquirer';
+import { PromptQuestion, Prompter } from './types';
+
+function toInquirerQuestion(question: PromptQuestion): DistinctQuestion {
+  const { type, name, message, choices, default: defaultValue, validate } = question;
+  switch (type) {
+    case 'list':
+      return { type, name, message, choices, default: defaultValue };
+    case 'checkbox':
+      return { type, name, message, choices };
+    case 'confirm':
+      return { type, name, message, default: defaultValue };
+    case 'input':
+      return { type, name, message, default: defaultValue, validate };
+  }
+}
+
+export const inquirerPrompter: Prompter = {
+  async prompt(question) {
+    const inquirer = (await import('inquirer')).default;
+    const answers = await inquirer.prompt([toInquirerQuestion(question)]);
+    return answers[question.name];
+  },
+};
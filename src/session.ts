@@ -0,0 +1,24 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { Session, SessionSchema } from './types';
+
+export const SESSION_FILE = 'session.json';
+
+export async function readSession(tempDir: string): Promise<Session | null> {
+  const sessionPath = path.join(tempDir, SESSION_FILE);
+  if (!(await fs.pathExists(sessionPath))) return null;
+
+  try {
+    return SessionSchema.parse(JSON.parse(await fs.readFile(sessionPath, 'utf-8')));
+  } catch (error: any) {
+    throw new Error(`Corrupted BoilIt session in ${sessionPath}: ${error.message}. Run 'boilit abort' to discard it.`);
+  }
+}
+
+export async function writeSession(tempDir: string, session: Session): Promise<void> {
+  await fs.writeFile(path.join(tempDir, SESSION_FILE), JSON.stringify(session, null, 2) + '\n');
+}
+
+export async function removeSession(tempDir: string): Promise<void> {
+  await fs.remove(path.join(tempDir, SESSION_FILE));
+}
@@ -1,28 +1,490 @@
 import { z } from 'zod';
 
+export const VariableSchema = z.object({
+  prompt: z.string().optional(),
+  default: z.string().optional(),
+  /** Regular expression the whole value must match. */
+  pattern: z.string().optional(),
+});
+
+export const HooksSchema = z.object({
+  preApply: z.array(z.string()).optional(),
+  postApply: z.array(z.string()).optional(),
+});
+
+/**
+ * A dependency written as a table: `{ repo = "git@host:org/platform.git", module = "auth", ref = "v3" }`
+ * for a module of another repository, or `{ module = "auth" }` for one of the same file
+ * (TOML arrays cannot mix strings and tables).
+ */
+export const DependencySchema = z.object({
+  repo: z.string().optional(),
+  module: z.string(),
+  ref: z.string().optional(),
+});
+
+/** What choosing a value of a module option adds to the module. */
+export const OptionChoiceSchema = z.object({
+  refs: z.array(z.string()).optional(),
+  files: z.array(z.string()).optional(),
+  dependencies: z.array(z.union([z.string(), DependencySchema])).optional(),
+});
+
+/**
+ * Mutually exclusive variants of a module, e.g. `choices = { pg = ["db-pg"], mysql = ["db-mysql"] }`.
+ * A choice is a list of refs or a table of refs, files and dependencies.
+ */
+export const ModuleOptionSchema = z.object({
+  prompt: z.string().optional(),
+  default: z.string().optional(),
+  choices: z.record(z.union([z.array(z.string()), OptionChoiceSchema])),
+});
+
+/** 'changes' limits a module's files to the paths its own commits touched. */
+export const COPY_SCOPES = ['all', 'changes'] as const;
+export type CopyScope = (typeof COPY_SCOPES)[number];
+
 export const ModuleSchema = z.object({
   description: z.string().optional(),
   origin: z.string().optional(),
   refs: z.array(z.string()).optional(),
-  dependencies: z.array(z.string()).optional(),
+  /** Semver range of the origin's tags to apply; the same as `refs = ["semver:<range>"]`. */
+  version: z.string().optional(),
+  dependencies: z.array(z.union([z.string(), DependencySchema])).optional(),
   path: z.string().optional(),
   files: z.array(z.string()).optional(),
   ignore: z.array(z.string()).optional(),
+  scope: z.enum(COPY_SCOPES).optional(),
+  variables: z.record(VariableSchema).optional(),
+  options: z.record(ModuleOptionSchema).optional(),
+  hooks: HooksSchema.optional(),
 });
 
+/** How `[default]` arrays of a config combine with those of the configs it extends. */
+export const MERGE_STRATEGIES = ['append', 'replace'] as const;
+
 export const DefaultSchema = z.object({
   origin: z.string(),
   files: z.array(z.string()).optional(),
   ignore: z.array(z.string()).optional(),
+  scope: z.enum(COPY_SCOPES).optional(),
+  merge: z.enum(MERGE_STRATEGIES).optional(),
+  variables: z.record(VariableSchema).optional(),
+  hooks: HooksSchema.optional(),
 });
 
 export const BoilItConfigSchema = z.object({
+  /** Configs to inherit from, as `<repo-or-path>#<ref>`; resolved away when the config is loaded. */
+  extends: z.array(z.string()).optional(),
   name: z.string(),
   description: z.string().optional(),
   modules: z.record(ModuleSchema),
   default: DefaultSchema.optional(),
 });
 
+export type Variable = z.infer<typeof VariableSchema>;
+export type Hooks = z.infer<typeof HooksSchema>;
 export type Module = z.infer<typeof ModuleSchema>;
+export type Dependency = z.infer<typeof DependencySchema>;
+export type OptionChoice = z.infer<typeof OptionChoiceSchema>;
+export type ModuleOption = z.infer<typeof ModuleOptionSchema>;
+export type ExternalDependency = Dependency & { repo: string };
 export type Default = z.infer<typeof DefaultSchema>;
 export type BoilItConfig = z.infer<typeof BoilItConfigSchema>;
+
+export const LockedRefSchema = z.object({
+  ref: z.string(),
+  origin: z.string(),
+  commits: z.array(z.string()),
+  /** Semver range the tag in `ref` was picked for. */
+  range: z.string().optional(),
+});
+
+/** A dependency on a module of another repository, by the URL boilit.lock records it under. */
+export const LockedDependencySchema = z.object({
+  url: z.string(),
+  module: z.string(),
+  ref: z.string().optional(),
+});
+
+export const LockedModuleSchema = z.object({
+  refs: z.array(LockedRefSchema),
+  dependencies: z.array(z.union([z.string(), LockedDependencySchema])).optional(),
+  path: z.string().optional(),
+  /** Choice made for each of the module's options. */
+  options: z.record(z.string()).optional(),
+  /** Variable values given for this module only, over the source's `variables`. */
+  variables: z.record(z.string()).optional(),
+  /** Target files this module wrote (relative to the target) and the sha256 of what was written. */
+  files: z.record(z.string()).optional(),
+  /** Directories created for the module's files, which `boilit remove` deletes once empty. */
+  dirs: z.array(z.string()).optional(),
+});
+
+export const LockedSourceSchema = z.object({
+  url: z.string(),
+  ref: z.string().optional(),
+  commit: z.string(),
+  variables: z.record(z.string()).optional(),
+  modules: z.record(LockedModuleSchema),
+});
+
+export const LockfileSchema = z.object({
+  version: z.literal(1),
+  sources: z.array(LockedSourceSchema),
+});
+
+export type LockedRef = z.infer<typeof LockedRefSchema>;
+export type LockedDependency = z.infer<typeof LockedDependencySchema>;
+export type LockedModule = z.infer<typeof LockedModuleSchema>;
+export type LockedSource = z.infer<typeof LockedSourceSchema>;
+export type Lockfile = z.infer<typeof LockfileSchema>;
+
+/** A module wanted from a source in boilit.project.toml. */
+export const ProjectModuleSchema = z.object({
+  /** Replaces the module's `path` from boilit.toml. */
+  path: z.string().optional(),
+  vars: z.record(z.string()).optional(),
+  /** Choices for the module's options, keyed by option name. */
+  opts: z.record(z.string()).optional(),
+});
+
+export const ProjectSourceSchema = z.object({
+  url: z.string(),
+  /** Branch, tag or commit that provides boilit.toml. */
+  ref: z.string().optional(),
+  vars: z.record(z.string()).optional(),
+  modules: z.record(ProjectModuleSchema),
+});
+
+export const ProjectManifestSchema = z.object({
+  sources: z.array(ProjectSourceSchema),
+});
+
+export type ProjectSource = z.infer<typeof ProjectSourceSchema>;
+export type ProjectManifest = z.infer<typeof ProjectManifestSchema>;
+
+export const ON_EXISTING_POLICIES = ['overwrite', 'skip', 'prompt', 'backup', 'fail'] as const;
+export type OnExistingPolicy = (typeof ON_EXISTING_POLICIES)[number];
+
+export const CONFLICT_STRATEGIES = ['fail', 'ours', 'theirs', 'skip-commit'] as const;
+export type ConflictStrategy = (typeof CONFLICT_STRATEGIES)[number];
+
+export const APPLY_MODES = ['copy', 'commit'] as const;
+export type ApplyMode = (typeof APPLY_MODES)[number];
+
+export interface UseOptions {
+  path?: string;
+  ref?: string;
+  frozen?: boolean;
+  dryRun?: boolean;
+  onExisting?: OnExistingPolicy;
+  vars?: Record<string, string>;
+  allowHooks?: boolean;
+  includeDirty?: boolean;
+  cache?: boolean;
+  offline?: boolean;
+  nonInteractive?: boolean;
+  conflictStrategy?: ConflictStrategy;
+  /** Apply every module when none are named, instead of asking. */
+  all?: boolean;
+  /** 'commit' commits each module into the target git repository instead of only copying files. */
+  mode?: ApplyMode;
+  /** With mode 'commit', make one commit per source commit instead of one per module. */
+  preserveHistory?: boolean;
+  /** With mode 'commit', run even when the target working tree has uncommitted changes. */
+  allowDirty?: boolean;
+  /** Destination per module, replacing its `path` from boilit.toml. */
+  paths?: Record<string, string>;
+  /** Choices for module options, keyed `<module>.<option>`. */
+  opts?: Record<string, string>;
+  /** Variable values per module, over `vars` for that module's files and hooks. */
+  moduleVars?: Record<string, Record<string, string>>;
+}
+
+/** The options of `boilit use` that boilit.project.toml sets for a source. */
+export type ProjectUseOptions = Pick<UseOptions, 'vars' | 'paths' | 'opts' | 'moduleVars'>;
+
+export type SyncOptions = Omit<
+  UseOptions,
+  'ref' | 'frozen' | 'vars' | 'includeDirty' | 'all' | 'paths' | 'opts' | 'moduleVars'
+>;
+
+export interface SyncReport {
+  sources: Array<{
+    source: string;
+    /** Modules that were missing from boilit.lock and got applied. */
+    applied: string[];
+    report?: ApplyReport;
+  }>;
+}
+
+export interface ConfigShowOptions {
+  ref?: string;
+  cache?: boolean;
+  offline?: boolean;
+  /** Merge the configs listed in `extends` instead of returning the file as written. */
+  resolved?: boolean;
+}
+
+export interface RemoveOptions {
+  path?: string;
+  /** Source URL to remove the module from, when several sources provide a module with that name. */
+  source?: string;
+}
+
+export interface RemoveReport {
+  module: string;
+  source: string;
+  removed: string[];
+  /** Files edited since they were applied; left in place. */
+  modified: string[];
+  /** Files also provided by another applied module; left in place. */
+  shared: string[];
+  /** Files recorded for the module that were no longer in the project. */
+  missing: string[];
+}
+
+export interface UpdateOptions {
+  path?: string;
+  /** Source URL to update, when boilit.lock records several. */
+  source?: string;
+  cache?: boolean;
+  offline?: boolean;
+  nonInteractive?: boolean;
+  conflictStrategy?: ConflictStrategy;
+}
+
+export interface ModuleUpdate {
+  module: string;
+  ref: string;
+  /** Last commit of the ref applied before the update. */
+  from: string;
+  to: string;
+  commits: string[];
+}
+
+export interface UpdateReport {
+  source: string;
+  modules: ModuleUpdate[];
+  files: Array<{ path: string; status: 'added' | 'updated' | 'deleted' }>;
+  /** The merge into the target was skipped from the conflict menu; nothing was written. */
+  skipped: boolean;
+}
+
+export interface DriftOptions {
+  path?: string;
+  cache?: boolean;
+  offline?: boolean;
+}
+
+export interface FileDrift {
+  source: string;
+  path: string;
+  status: 'modified' | 'deleted';
+  /** Modules that recorded this file. */
+  modules: string[];
+}
+
+export interface UpstreamDrift {
+  source: string;
+  module: string;
+  ref: string;
+  origin: string;
+  /** Last commit of the ref that was applied. */
+  applied: string;
+  /** Commit the ref resolves to now. */
+  latest: string;
+  /** Commits on the ref since `applied`, or null when `applied` is no longer in its history. */
+  behind: number | null;
+}
+
+export interface DriftReport {
+  files: FileDrift[];
+  upstream: UpstreamDrift[];
+  drifted: boolean;
+}
+
+export type OutdatedOptions = DriftOptions;
+
+/** A module ref applied from a semver range, with the versions available upstream. */
+export interface OutdatedRef {
+  source: string;
+  module: string;
+  origin: string;
+  range: string;
+  /** Tag recorded in boilit.lock. */
+  current: string;
+  /** Highest tag that satisfies the range. */
+  wanted: string | null;
+  /** Highest version tag of the origin. */
+  latest: string | null;
+}
+
+export interface OutdatedReport {
+  refs: OutdatedRef[];
+}
+
+export type FileStatus = 'new' | 'identical' | 'changed';
+export type FileAction = 'write' | 'skip' | 'backup' | 'merge';
+
+export interface PlannedCommit {
+  sha: string;
+  subject: string;
+}
+
+export type HookStage = 'preApply' | 'postApply';
+
+export interface PlannedHook {
+  module: string;
+  stage: HookStage;
+  command: string;
+}
+
+export interface ApplyReport {
+  dryRun: boolean;
+  order: string[];
+  modules: Record<string, Array<{ ref: string; origin: string; range?: string; commits: PlannedCommit[] }>>;
+  files: Array<{ path: string; status: FileStatus; action?: FileAction }>;
+  hooks: PlannedHook[];
+  /** Plans of the other repositories that modules depend on, in the order they are applied. */
+  externals?: ExternalReport[];
+}
+
+export interface ExternalReport extends ApplyReport {
+  source: string;
+  ref?: string;
+}
+
+/**
+ * A state of the cloned source to commit into the target with --mode=commit: the source files
+ * (no module), the end of a module, or a single picked commit with --preserve-history.
+ */
+export const CommitStepSchema = z.object({
+  module: z.string().optional(),
+  ref: z.string().optional(),
+  sha: z.string().optional(),
+  head: z.string(),
+});
+
+export type CommitStep = z.infer<typeof CommitStepSchema>;
+
+export const SessionSchema = z.object({
+  version: z.literal(1),
+  repo: z.string(),
+  ref: z.string().optional(),
+  localSource: z.string().nullable(),
+  targetPath: z.string(),
+  options: z.object({
+    dryRun: z.boolean().optional(),
+    onExisting: z.enum(ON_EXISTING_POLICIES).optional(),
+    vars: z.record(z.string()).optional(),
+    allowHooks: z.boolean().optional(),
+    cache: z.boolean().optional(),
+    offline: z.boolean().optional(),
+    nonInteractive: z.boolean().optional(),
+    conflictStrategy: z.enum(CONFLICT_STRATEGIES).optional(),
+    mode: z.enum(APPLY_MODES).optional(),
+    preserveHistory: z.boolean().optional(),
+    allowDirty: z.boolean().optional(),
+    paths: z.record(z.string()).optional(),
+    opts: z.record(z.string()).optional(),
+    moduleVars: z.record(z.record(z.string())).optional(),
+  }),
+  configCommit: z.string(),
+  config: BoilItConfigSchema,
+  lockedSource: LockedSourceSchema.nullable(),
+  order: z.array(z.string()),
+  applied: z.record(LockedModuleSchema),
+  current: z.object({
+    module: z.string(),
+    refs: z.array(LockedRefSchema),
+    refIndex: z.number(),
+    shaIndex: z.number(),
+  }),
+  steps: z.array(CommitStepSchema).optional(),
+  /** The clone's HEAD after each module with scope "changes". */
+  heads: z.record(z.string()).optional(),
+});
+
+export type Session = z.infer<typeof SessionSchema>;
+export type SessionCursor = Session['current'];
+
+export interface SessionStatus {
+  session: Session;
+  repoDir: string;
+  conflictedFiles: string[];
+}
+
+export type BoilItEvent =
+  | { type: 'clone-started'; url: string }
+  | { type: 'clone-finished'; url: string }
+  | { type: 'config-loaded'; name: string; modules: string[] }
+  | { type: 'order-resolved'; modules: string[] }
+  | { type: 'ref-validated'; module: string; ref: string }
+  | { type: 'ref-resolved'; module: string; range: string; ref: string }
+  | { type: 'commit-picked'; module: string; ref: string; sha: string }
+  | { type: 'commit-skipped'; module: string; ref: string; sha: string }
+  | { type: 'conflict'; module: string; sha: string; files: string[] }
+  | { type: 'file-copied'; path: string; status: FileStatus; action: FileAction }
+  | { type: 'done'; code: 0; report: ApplyReport }
+  | { type: 'failed'; code: number; error: { name: string; message: string } };
+
+export interface GitOptions {
+  input?: string;
+  env?: Record<string, string>;
+  stdio?: 'pipe' | 'inherit';
+  /** When false, a non-zero exit resolves with `exitCode` instead of throwing. */
+  reject?: boolean;
+  stripFinalNewline?: boolean;
+}
+
+export interface GitResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+}
+
+/**
+ * Runs `git <args>`. Failures must reject with an error carrying `exitCode` (and `stderr`), the
+ * way execa does, unless `reject` is false.
+ */
+export type GitExecutor = (args: string[], options?: GitOptions) => Promise<GitResult>;
+
+export interface PromptQuestion {
+  type: 'list' | 'input' | 'confirm' | 'checkbox';
+  /**
+   * Identifies the prompt: 'action' (conflict menu, existing file, apply order), 'side', 'value'
+   * (variable), 'confirmed' (hooks), 'modules' (module picker, answered with an array).
+   */
+  name: string;
+  message: string;
+  choices?: Array<{ name: string; value: string; checked?: boolean; disabled?: boolean | string }>;
+  default?: string | boolean;
+  validate?: (input: string) => true | string;
+}
+
+export interface Prompter {
+  prompt<T = string>(question: PromptQuestion): Promise<T>;
+}
+
+export interface Logger {
+  log(message: string): void;
+}
+
+export interface BoilItOptions {
+  /** Directory that relative target paths, local sources and the temp dir are resolved against. */
+  cwd?: string;
+  /** Where sources are cloned; defaults to `<cwd>/.boilit-temp`. */
+  tempDir?: string;
+  /** Receives human-readable messages; providing one also disables spinners. */
+  logger?: Logger;
+  /** Answers conflict menus and other questions; defaults to inquirer, which needs a TTY. */
+  prompter?: Prompter;
+  /** Runs git, including for the repository cache; defaults to execa. Hooks always run through execa. */
+  git?: GitExecutor;
+  /** Receives structured progress events. */
+  onEvent?: (event: BoilItEvent) => void;
+  /** Disables spinners and sends human-readable messages to stderr, leaving stdout to machine output. */
+  quiet?: boolean;
+}
@@ -0,0 +1,37 @@
+import semver from 'semver';
+
+/** Marks a module ref that stands for the highest tag matching a range: `semver:^1.2`. */
+export const SEMVER_REF_PREFIX = 'semver:';
+
+export interface TaggedVersion {
+  tag: string;
+  version: string;
+}
+
+/** The range of a `semver:<range>` ref, or null for a plain ref. */
+export function semverRange(ref: string): string | null {
+  return ref.startsWith(SEMVER_REF_PREFIX) ? ref.slice(SEMVER_REF_PREFIX.length).trim() : null;
+}
+
+/**
+ * The tags of `git ls-remote --tags` output that are versions (`1.2.0` or `v1.2.0`), highest
+ * first. When two tags name the same version, the first one listed is kept.
+ */
+export function parseVersionTags(lsRemote: string): TaggedVersion[] {
+  const found = new Map<string, TaggedVersion>();
+  for (const line of lsRemote.split('\n')) {
+    const tag = line.split('\t')[1]?.replace(/^refs\/tags\//, '').replace(/\^\{\}$/, '');
+    const version = tag ? semver.valid(tag) : null;
+    if (tag && version && !found.has(version)) found.set(version, { tag, version });
+  }
+  return [...found.values()].sort((a, b) => semver.rcompare(a.version, b.version));
+}
+
+/** The highest of `tags` (sorted as by parseVersionTags) that satisfies `range`. */
+export function pickVersion(tags: TaggedVersion[], range: string): TaggedVersion | null {
+  return tags.find((tag) => semver.satisfies(tag.version, range)) ?? null;
+}
+
+export function isValidRange(range: string): boolean {
+  return semver.validRange(range) !== null;
+}